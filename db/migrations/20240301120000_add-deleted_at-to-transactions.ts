@@ -0,0 +1,19 @@
+import type { Knex } from 'knex'
+
+export async function up(knex: Knex): Promise<void> {
+  await knex.schema.alterTable('transactions', (table) => {
+    table.timestamp('deleted_at').nullable().index()
+  })
+}
+
+export async function down(knex: Knex): Promise<void> {
+  await knex.schema.alterTable('transactions', (table) => {
+    table.dropColumn('deleted_at')
+  })
+}
+
+/*
+Observações:
+- A coluna deleted_at implementa a exclusão lógica (soft delete): em vez de apagar o registro, guardamos a data em que ele foi excluído. Enquanto ela for 
+null, a transação está ativa. Isto permite restaurar transações excluídas por engano.
+*/
@@ -0,0 +1,25 @@
+import type { Knex } from 'knex'
+
+export async function up(knex: Knex): Promise<void> {
+  await knex.schema.createTable('transaction_history', (table) => {
+    table.increments('id').primary()
+    table.uuid('transaction_id').notNullable().index()
+    table.uuid('session_id').notNullable()
+    table.text('action').notNullable()
+    table.text('before')
+    table.text('after')
+    table.timestamp('created_at').defaultTo(knex.fn.now()).notNullable()
+  })
+}
+
+export async function down(knex: Knex): Promise<void> {
+  await knex.schema.dropTable('transaction_history')
+}
+
+/*
+Observações:
+- O id desta tabela é incremental (e não um UUID) porque ele também define a ordem em que as alterações aconteceram. A coluna created_at do SQLite tem precisão 
+de segundos, então não serve para ordenar alterações feitas no mesmo segundo.
+- As colunas before e after guardam o estado da transação (em JSON) antes e depois da alteração. Usamos text em vez de json porque o SQLite não possui um tipo 
+json nativo.
+*/
@@ -0,0 +1,16 @@
+import type { Knex } from 'knex'
+
+export async function up(knex: Knex): Promise<void> {
+  await knex.schema.createTable('categories', (table) => {
+    table.uuid('id').primary()
+    table.uuid('session_id').notNullable().index()
+    table.text('name').notNullable()
+    table.timestamp('created_at').defaultTo(knex.fn.now()).notNullable()
+
+    table.unique(['session_id', 'name']) // uma mesma sessão não pode ter duas categorias com o mesmo nome
+  })
+}
+
+export async function down(knex: Knex): Promise<void> {
+  await knex.schema.dropTable('categories')
+}
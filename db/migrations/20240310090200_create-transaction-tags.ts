@@ -0,0 +1,20 @@
+import type { Knex } from 'knex'
+
+export async function up(knex: Knex): Promise<void> {
+  await knex.schema.createTable('transaction_tags', (table) => {
+    table.uuid('transaction_id').notNullable()
+    table.text('tag').notNullable().index()
+
+    table.primary(['transaction_id', 'tag']) // a mesma tag não pode ser associada duas vezes à mesma transação
+  })
+}
+
+export async function down(knex: Knex): Promise<void> {
+  await knex.schema.dropTable('transaction_tags')
+}
+
+/*
+Observações:
+- As tags são texto livre, por isso não possuem uma tabela própria: cada linha desta tabela associa uma tag a uma transação (relacionamento N:N entre 
+transações e tags).
+*/
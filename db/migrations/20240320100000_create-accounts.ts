@@ -0,0 +1,53 @@
+import { randomUUID } from 'node:crypto'
+import type { Knex } from 'knex'
+
+export async function up(knex: Knex): Promise<void> {
+  await knex.schema.createTable('accounts', (table) => {
+    table.uuid('id').primary()
+    table.uuid('session_id').notNullable().index()
+    table.text('name').notNullable()
+    table.text('kind').notNullable()
+    table.decimal('opening_balance', 10, 2).defaultTo(0).notNullable()
+    table.timestamp('created_at').defaultTo(knex.fn.now()).notNullable()
+  })
+
+  await knex.schema.alterTable('transactions', (table) => {
+    table.uuid('account_id').nullable().index()
+    table.uuid('transfer_id').nullable().index()
+  })
+
+  // As transações existentes pertenciam a um livro-caixa implícito da sessão. Para cada sessão, criamos uma conta principal e movemos as transações para ela
+  const sessions = await knex('transactions')
+    .whereNotNull('session_id')
+    .distinct('session_id')
+
+  for (const { session_id: sessionId } of sessions) {
+    const accountId = randomUUID()
+
+    await knex('accounts').insert({
+      id: accountId,
+      session_id: sessionId,
+      name: 'Conta principal',
+      kind: 'checking',
+      opening_balance: 0,
+    })
+
+    await knex('transactions')
+      .where('session_id', sessionId)
+      .update({ account_id: accountId })
+  }
+}
+
+export async function down(knex: Knex): Promise<void> {
+  await knex.schema.alterTable('transactions', (table) => {
+    table.dropColumn('account_id')
+    table.dropColumn('transfer_id')
+  })
+
+  await knex.schema.dropTable('accounts')
+}
+
+/*
+Observações:
+- A coluna transfer_id liga as duas transações (débito na conta de origem e crédito na conta de destino) criadas por uma transferência.
+*/
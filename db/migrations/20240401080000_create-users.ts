@@ -0,0 +1,31 @@
+import type { Knex } from 'knex'
+
+export async function up(knex: Knex): Promise<void> {
+  await knex.schema.createTable('users', (table) => {
+    table.uuid('id').primary()
+    table.text('email').notNullable().unique()
+    table.text('password_hash').notNullable()
+    table.uuid('session_id').notNullable().unique()
+    table.timestamp('created_at').defaultTo(knex.fn.now()).notNullable()
+  })
+
+  await knex.schema.createTable('user_sessions', (table) => {
+    table.text('token_hash').primary()
+    table.uuid('user_id').notNullable().index()
+    table.timestamp('expires_at').notNullable()
+    table.timestamp('created_at').defaultTo(knex.fn.now()).notNullable()
+  })
+}
+
+export async function down(knex: Knex): Promise<void> {
+  await knex.schema.dropTable('user_sessions')
+  await knex.schema.dropTable('users')
+}
+
+/*
+Observações:
+- A coluna users.session_id é o identificador que os dados do usuário (transações, contas, categorias...) usam na coluna session_id. Ela nunca é enviada ao 
+cliente em um cookie: o usuário é identificado pelo token de login, e o session_id é obtido a partir do usuário.
+- A tabela user_sessions guarda os logins ativos. Armazenamos apenas o hash (SHA-256) do token, assim um vazamento do banco de dados não permite usar os 
+tokens.
+*/
@@ -0,0 +1,19 @@
+import type { Knex } from 'knex'
+
+export async function up(knex: Knex): Promise<void> {
+  await knex.schema.alterTable('transactions', (table) => {
+    table.text('external_id').nullable().index()
+  })
+}
+
+export async function down(knex: Knex): Promise<void> {
+  await knex.schema.alterTable('transactions', (table) => {
+    table.dropColumn('external_id')
+  })
+}
+
+/*
+Observações:
+- A coluna external_id guarda o identificador que a transação tem fora da aplicação, como o FITID de um extrato OFX. Ela é usada para não importar a mesma 
+transação duas vezes.
+*/
@@ -0,0 +1,52 @@
+import type { Knex } from 'knex'
+
+export async function up(knex: Knex): Promise<void> {
+  await knex.schema.createTable('recurring_transactions', (table) => {
+    table.uuid('id').primary()
+    table.uuid('session_id').notNullable().index()
+
+    // Modelo das transações que serão criadas
+    table.text('title').notNullable()
+    table.decimal('amount', 10, 2).notNullable()
+    table.uuid('account_id').nullable()
+    table.uuid('category_id').nullable()
+
+    // Agendamento
+    table.timestamp('start_date').notNullable()
+    table.text('frequency').notNullable()
+    table.integer('frequency_interval').notNullable().defaultTo(1)
+    table.text('weekdays').nullable()
+    table.integer('day_of_month').nullable()
+    table.text('rrule').nullable()
+    table.timestamp('end_date').nullable()
+    table.integer('occurrence_count').nullable()
+    table.timestamp('materialized_until').nullable()
+
+    table.timestamp('created_at').defaultTo(knex.fn.now()).notNullable()
+  })
+
+  await knex.schema.alterTable('transactions', (table) => {
+    table.uuid('recurring_id').nullable()
+    table.timestamp('occurrence_at').nullable()
+
+    table.unique(['recurring_id', 'occurrence_at'])
+  })
+}
+
+export async function down(knex: Knex): Promise<void> {
+  await knex.schema.alterTable('transactions', (table) => {
+    table.dropUnique(['recurring_id', 'occurrence_at'])
+    table.dropColumn('recurring_id')
+    table.dropColumn('occurrence_at')
+  })
+
+  await knex.schema.dropTable('recurring_transactions')
+}
+
+/*
+Observações:
+- O índice único em (recurring_id, occurrence_at) garante que cada ocorrência de uma transação recorrente seja criada uma única vez, mesmo que o agendador 
+tente criá-la de novo (ex.: depois de reiniciar o servidor). Transações comuns têm recurring_id nulo e não são afetadas, pois tanto o SQLite quanto o 
+PostgreSQL consideram valores nulos diferentes entre si em índices únicos.
+- A coluna materialized_until guarda a data da última ocorrência já criada, para que o agendador não precise verificar as ocorrências antigas novamente.
+*/
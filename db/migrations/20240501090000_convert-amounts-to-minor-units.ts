@@ -0,0 +1,80 @@
+import type { Knex } from 'knex'
+
+// Colunas com valores monetários, que passam a guardar inteiros em unidades menores da moeda (centavos)
+const moneyColumns = [
+  ['transactions', 'amount'],
+  ['accounts', 'opening_balance'],
+  ['recurring_transactions', 'amount'],
+] as const
+
+export async function up(knex: Knex): Promise<void> {
+  // Até aqui, todas as transações estavam implicitamente em reais
+  await knex.schema.alterTable('transactions', (table) => {
+    table.text('currency').notNullable().defaultTo('BRL')
+  })
+
+  await knex.schema.alterTable('recurring_transactions', (table) => {
+    table.text('currency').notNullable().defaultTo('BRL')
+  })
+
+  for (const [table, column] of moneyColumns) {
+    if (knex.client.config.client === 'pg') {
+      // No PostgreSQL, a conversão dos valores é feita junto com a mudança do tipo da coluna
+      await knex.raw(
+        'alter table ?? alter column ?? type bigint using round(?? * 100)::bigint',
+        [table, column, column],
+      )
+    } else {
+      // No SQLite, o tipo declarado da coluna não restringe os valores: uma coluna decimal guarda números inteiros como INTEGER.
+      // Por isso basta atualizar os valores, sem precisar recriar a tabela
+      await knex(table).update({
+        [column]: knex.raw('cast(round(?? * 100) as integer)', [column]),
+      })
+    }
+  }
+
+  await knex.schema.createTable('exchange_rates', (table) => {
+    table.uuid('id').primary()
+    table.uuid('session_id').notNullable().index()
+    table.text('base_currency').notNullable()
+    table.text('quote_currency').notNullable()
+    table.date('date').notNullable()
+    table.decimal('rate', 18, 8).notNullable()
+    table.timestamp('created_at').defaultTo(knex.fn.now()).notNullable()
+
+    table.unique(['session_id', 'base_currency', 'quote_currency', 'date'])
+  })
+}
+
+export async function down(knex: Knex): Promise<void> {
+  await knex.schema.dropTable('exchange_rates')
+
+  for (const [table, column] of moneyColumns) {
+    if (knex.client.config.client === 'pg') {
+      await knex.raw(
+        'alter table ?? alter column ?? type decimal(12, 2) using ?? / 100.0',
+        [table, column, column],
+      )
+    } else {
+      await knex(table).update({
+        [column]: knex.raw('?? / 100.0', [column]),
+      })
+    }
+  }
+
+  await knex.schema.alterTable('recurring_transactions', (table) => {
+    table.dropColumn('currency')
+  })
+
+  await knex.schema.alterTable('transactions', (table) => {
+    table.dropColumn('currency')
+  })
+}
+
+/*
+Observações:
+- Os valores em decimal eram lidos como number no JavaScript e a soma do SQLite devolvia números de ponto flutuante, o que gerava erros de arredondamento nos 
+resumos. Com inteiros em centavos, as somas são exatas.
+- A cotação (rate) indica quantas unidades da moeda quote_currency valem uma unidade da moeda base_currency na data informada. Ela é usada até que exista uma 
+cotação mais recente para o mesmo par de moedas.
+*/
@@ -0,0 +1,23 @@
+import type { Knex } from 'knex'
+
+export async function up(knex: Knex): Promise<void> {
+  await knex.schema.createTable('budgets', (table) => {
+    table.uuid('id').primary()
+    table.uuid('session_id').notNullable().index()
+    table.text('name').notNullable()
+    table.bigInteger('amount').notNullable() // limite mensal em unidades menores da moeda (centavos)
+    table.text('currency').notNullable().defaultTo('BRL')
+
+    // Filtros opcionais: sem eles, o orçamento considera todos os débitos da sessão na sua moeda
+    table.uuid('category_id').nullable()
+    table.text('title_pattern').nullable()
+
+    table.boolean('rollover').notNullable().defaultTo(false)
+    table.text('start_month').notNullable() // YYYY-MM, primeiro mês do orçamento
+    table.timestamp('created_at').defaultTo(knex.fn.now()).notNullable()
+  })
+}
+
+export async function down(knex: Knex): Promise<void> {
+  await knex.schema.dropTable('budgets')
+}
@@ -0,0 +1,19 @@
+import type { Knex } from 'knex'
+
+export async function up(knex: Knex): Promise<void> {
+  await knex.schema.createTable('idempotency_keys', (table) => {
+    table.uuid('session_id').notNullable()
+    table.text('key').notNullable() // valor do cabeçalho Idempotency-Key enviado pelo cliente
+    table.text('request_hash').notNullable() // hash (SHA-256) do corpo da requisição original
+    table.integer('status_code').notNullable()
+    table.text('response_body').notNullable() // resposta original (JSON), devolvida novamente nas repetições
+    table.timestamp('expires_at').notNullable().index()
+    table.timestamp('created_at').defaultTo(knex.fn.now()).notNullable()
+
+    table.primary(['session_id', 'key']) // a mesma chave pode ser usada por sessões diferentes
+  })
+}
+
+export async function down(knex: Knex): Promise<void> {
+  await knex.schema.dropTable('idempotency_keys')
+}
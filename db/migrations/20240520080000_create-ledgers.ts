@@ -0,0 +1,44 @@
+import type { Knex } from 'knex'
+
+export async function up(knex: Knex): Promise<void> {
+  await knex.schema.createTable('ledgers', (table) => {
+    table.uuid('id').primary()
+    table.uuid('session_id').notNullable().unique() // identificador usado na coluna session_id dos dados do livro (transações, contas, categorias...)
+    table.text('name').notNullable()
+    table.timestamp('created_at').defaultTo(knex.fn.now()).notNullable()
+  })
+
+  await knex.schema.createTable('ledger_members', (table) => {
+    table.uuid('id').primary()
+    table.uuid('ledger_id').notNullable().index()
+    table.uuid('session_id').notNullable().index() // session_id do membro (do usuário ou do cookie sessionId da sessão anônima)
+    table.enu('role', ['owner', 'editor', 'viewer']).notNullable()
+    table.timestamp('created_at').defaultTo(knex.fn.now()).notNullable()
+
+    table.unique(['ledger_id', 'session_id']) // uma sessão participa de um livro apenas uma vez
+  })
+
+  await knex.schema.createTable('ledger_invites', (table) => {
+    table.uuid('id').primary()
+    table.uuid('ledger_id').notNullable().index()
+    table.text('token_hash').notNullable().unique()
+    table.enu('role', ['editor', 'viewer']).notNullable() // papel recebido por quem usar o convite
+    table.timestamp('expires_at').notNullable()
+    table.timestamp('created_at').defaultTo(knex.fn.now()).notNullable()
+  })
+}
+
+export async function down(knex: Knex): Promise<void> {
+  await knex.schema.dropTable('ledger_invites')
+  await knex.schema.dropTable('ledger_members')
+  await knex.schema.dropTable('ledgers')
+}
+
+/*
+Observações:
+- Os dados continuam usando a coluna session_id. Um livro (ledger) é dono dos dados cujo session_id é igual ao ledgers.session_id. O livro pessoal de uma
+sessão usa o próprio session_id da sessão, por isso os dados que já existiam passam a pertencer a ele sem nenhuma alteração.
+- O ledgers.session_id nunca é enviado ao cliente. Os membros acessam o livro pelo ledgers.id (cabeçalho Ledger-Id), e a participação é conferida a cada
+requisição.
+- Assim como nos logins, armazenamos apenas o hash (SHA-256) do token do convite.
+*/
@@ -0,0 +1,19 @@
+// eslint-disable-next-line @typescript-eslint/no-unused-vars
+import { FastifyRequest } from 'fastify'
+
+// Assim como em knex.d.ts, estamos estendendo a interface FastifyRequest com as propriedades preenchidas pelo hook resolveAuth
+declare module 'fastify' {
+  export interface FastifyRequest {
+    // Identificador dos dados do livro (ledger) acessado na requisição: o session_id do livro informado no cabeçalho Ledger-Id ou, sem o cabeçalho, o
+    // personalSessionId (livro pessoal). Fica vazio se o cliente ainda não tiver uma sessão
+    sessionId: string
+    // session_id do próprio cliente: o do usuário autenticado ou, para clientes anônimos, o cookie sessionId. Identifica o cliente como membro dos livros
+    personalSessionId: string
+    // Papel do cliente no livro acessado (no livro pessoal, o cliente é sempre o dono). Fica nulo se o cliente ainda não tiver uma sessão
+    ledgerRole: 'owner' | 'editor' | 'viewer' | null
+    user: {
+      id: string
+      email: string
+    } | null
+  }
+}
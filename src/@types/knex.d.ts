@@ -10,9 +10,140 @@ declare module 'knex/types/tables' {
     transactions: {
       id: string
       title: string
-      amount: number
-      created_at: string
+      amount: number // em unidades menores da moeda (centavos)
+      currency?: string
+      created_at: string | Date // o driver pg devolve colunas timestamp como objetos Date
       session_id?: string
+      deleted_at?: string | null
+      category_id?: string | null
+      account_id?: string | null
+      transfer_id?: string | null
+      external_id?: string | null
+      recurring_id?: string | null
+      occurrence_at?: string | Date | null
+    }
+
+    recurring_transactions: {
+      id: string
+      session_id: string
+      title: string
+      amount: number // em unidades menores da moeda (centavos)
+      currency?: string
+      account_id: string | null
+      category_id: string | null
+      start_date: string | Date
+      frequency: 'daily' | 'weekly' | 'monthly'
+      frequency_interval: number
+      weekdays: string | null // dias da semana separados por vírgula (0 = domingo)
+      day_of_month: number | null
+      rrule: string | null
+      end_date: string | Date | null
+      occurrence_count: number | null
+      materialized_until?: string | Date | null
+      created_at?: string
+    }
+
+    accounts: {
+      id: string
+      session_id: string
+      name: string
+      kind: 'cash' | 'checking' | 'savings' | 'credit_card'
+      opening_balance: number // em unidades menores da moeda (centavos)
+      created_at?: string
+    }
+
+    budgets: {
+      id: string
+      session_id: string
+      name: string
+      amount: number // limite mensal em unidades menores da moeda (centavos)
+      currency: string
+      category_id: string | null
+      title_pattern: string | null
+      rollover: boolean | number // o SQLite devolve colunas boolean como 0 ou 1
+      start_month: string
+      created_at?: string
+    }
+
+    idempotency_keys: {
+      session_id: string
+      key: string
+      request_hash: string
+      status_code: number
+      response_body: string // JSON
+      expires_at: string | Date
+      created_at?: string
+    }
+
+    exchange_rates: {
+      id: string
+      session_id: string
+      base_currency: string
+      quote_currency: string
+      date: string
+      rate: number
+      created_at?: string
+    }
+
+    users: {
+      id: string
+      email: string
+      password_hash: string
+      session_id: string
+      created_at?: string
+    }
+
+    user_sessions: {
+      token_hash: string
+      user_id: string
+      expires_at: string | Date
+      created_at?: string
+    }
+
+    ledgers: {
+      id: string
+      session_id: string // identificador usado na coluna session_id dos dados do livro
+      name: string
+      created_at?: string
+    }
+
+    ledger_members: {
+      id: string
+      ledger_id: string
+      session_id: string // session_id do membro
+      role: 'owner' | 'editor' | 'viewer'
+      created_at?: string
+    }
+
+    ledger_invites: {
+      id: string
+      ledger_id: string
+      token_hash: string
+      role: 'editor' | 'viewer'
+      expires_at: string | Date
+      created_at?: string
+    }
+
+    categories: {
+      id: string
+      session_id: string
+      name: string
+      created_at?: string
+    }
+
+    transaction_tags: {
+      transaction_id: string
+      tag: string
+    }
+
+    transaction_history: {
+      id?: number
+      transaction_id: string
+      session_id: string
+      action: 'created' | 'updated' | 'deleted' | 'restored'
+      before: string | null
+      after: string | null
+      created_at?: string
     }
   }
 }
@@ -1,8 +1,44 @@
 import fastify from 'fastify'
 import cookie from '@fastify/cookie'
+import multipart from '@fastify/multipart'
+import swagger from '@fastify/swagger'
+import {
+  serializerCompiler,
+  validatorCompiler,
+} from 'fastify-type-provider-zod'
 import { transactionsRoutes } from './routes/transactions'
+import { transactionsImportRoutes } from './routes/transactions-import'
+import { transactionsExportRoutes } from './routes/transactions-export'
+import { transactionsBatchRoutes } from './routes/transactions-batch'
+import { categoriesRoutes } from './routes/categories'
+import { accountsRoutes } from './routes/accounts'
+import { transfersRoutes } from './routes/transfers'
+import { authRoutes } from './routes/auth'
+import { recurringRoutes } from './routes/recurring'
+import { exchangeRatesRoutes } from './routes/exchange-rates'
+import { budgetsRoutes } from './routes/budgets'
+import { docsRoutes } from './routes/docs'
+import { ledgersRoutes } from './routes/ledgers'
+import { healthRoutes } from './routes/health'
+import { metricsRoutes } from './routes/metrics'
+import { resolveAuth } from './middlewares/resolve-auth'
+import { ensureLedgerWriteAccess } from './middlewares/ensure-ledger-write-access'
+import { errorHandler, notFoundHandler } from './middlewares/error-handler'
+import { generateRequestId, sendRequestId } from './middlewares/request-id'
+import { recordRequestMetrics } from './middlewares/record-request-metrics'
+import { openapiOptions } from './utils/openapi'
+import { env } from './env'
 
-export const app = fastify()
+export const app = fastify({
+  // O Fastify usa o pino para escrever os logs em JSON, uma linha por evento. Cada requisição gera um log ao chegar e outro ao ser respondida (com o
+  // tempo de resposta), e os logs escritos com request.log carregam o id da requisição (requestId)
+  logger: {
+    level: env.LOG_LEVEL,
+  },
+  requestIdLogLabel: 'requestId',
+  requestIdHeader: false, // o cabeçalho X-Request-Id é tratado por generateRequestId, que valida o valor recebido
+  genReqId: generateRequestId,
+})
 
 // A ordem de execução dos plugins é a mesma em que eles são registrados pelo Fastify, portanto, temos que cuidar com a ordem abaixo.
 
@@ -10,9 +46,103 @@ export const app = fastify()
 // O plugin adiciona o objeto cookies à solicitação (request) e resposta (response) do Fastify, permitindo a manipulação fácil de cookies
 app.register(cookie)
 
-// transactionsRoutes é um plugin que contém rotas relacionadas a transações
-app.register(transactionsRoutes, {
-  prefix: 'transactions', // define que todas as rotas dentro desse plugin terão o caminho prefixado com /transactions
+// Devolve o id da requisição no cabeçalho X-Request-Id. Veja src/middlewares/request-id.ts
+app.addHook('onRequest', sendRequestId)
+
+// Mede todas as requisições, inclusive as recusadas pelos hooks e as de rotas inexistentes. Veja src/middlewares/record-request-metrics.ts
+if (env.METRICS_ENABLED) {
+  app.addHook('onResponse', recordRequestMetrics)
+}
+
+// Identifica o cliente (usuário autenticado ou sessão anônima) e o livro acessado em todas as requisições. Veja src/middlewares/resolve-auth.ts
+app.decorateRequest('sessionId', '')
+app.decorateRequest('user', null)
+app.decorateRequest('personalSessionId', '')
+app.decorateRequest('ledgerRole', null)
+app.addHook('onRequest', resolveAuth)
+
+// Converte os erros lançados pelas rotas (ZodError, AppError ou inesperados) em respostas com um formato único. Veja src/middlewares/error-handler.ts
+app.setErrorHandler(errorHandler)
+app.setNotFoundHandler(notFoundHandler)
+
+// multipart é um plugin que permite receber arquivos enviados em formulários (multipart/form-data), como os extratos bancários importados
+app.register(multipart, {
+  limits: {
+    fileSize: 5 * 1024 * 1024, // 5 MB
+    files: 1,
+  },
+})
+
+// Os esquemas Zod informados nas opções das rotas (schema) validam a requisição (body, querystring, params e headers) e serializam a resposta
+app.setValidatorCompiler(validatorCompiler)
+app.setSerializerCompiler(serializerCompiler)
+
+// swagger monta o documento OpenAPI a partir das rotas registradas depois dele, por isso ele precisa ser registrado antes dos plugins de rotas
+app.register(swagger, openapiOptions)
+
+app.register(docsRoutes)
+
+app.register(healthRoutes)
+
+if (env.METRICS_ENABLED) {
+  app.register(metricsRoutes)
+}
+
+app.register(authRoutes, {
+  prefix: 'auth',
+})
+
+// Rotas com os dados do livro acessado. Os hooks adicionados dentro de um plugin valem apenas para as rotas registradas nele, por isso as alterações feitas
+// pelos leitores (viewer) de um livro compartilhado são recusadas apenas nestas rotas. As rotas de autenticação e de livros (ex.: sair, entrar em outro
+// livro) continuam disponíveis para eles. Veja src/middlewares/ensure-ledger-write-access.ts
+app.register(async (ledgerDataApp) => {
+  ledgerDataApp.addHook('onRequest', ensureLedgerWriteAccess)
+
+  // transactionsRoutes é um plugin que contém rotas relacionadas a transações
+  ledgerDataApp.register(transactionsRoutes, {
+    prefix: 'transactions', // define que todas as rotas dentro desse plugin terão o caminho prefixado com /transactions
+  })
+
+  // Um mesmo prefixo pode ser usado por mais de um plugin
+  ledgerDataApp.register(transactionsImportRoutes, {
+    prefix: 'transactions',
+  })
+
+  ledgerDataApp.register(transactionsExportRoutes, {
+    prefix: 'transactions',
+  })
+
+  ledgerDataApp.register(transactionsBatchRoutes, {
+    prefix: 'transactions',
+  })
+
+  ledgerDataApp.register(categoriesRoutes, {
+    prefix: 'categories',
+  })
+
+  ledgerDataApp.register(accountsRoutes, {
+    prefix: 'accounts',
+  })
+
+  ledgerDataApp.register(transfersRoutes, {
+    prefix: 'transfers',
+  })
+
+  ledgerDataApp.register(recurringRoutes, {
+    prefix: 'recurring',
+  })
+
+  ledgerDataApp.register(exchangeRatesRoutes, {
+    prefix: 'exchange-rates',
+  })
+
+  ledgerDataApp.register(budgetsRoutes, {
+    prefix: 'budgets',
+  })
+})
+
+app.register(ledgersRoutes, {
+  prefix: 'ledgers',
 })
 
 /*
@@ -1,6 +1,15 @@
 import { Knex, knex as setupKnex } from 'knex'
+import { types } from 'pg'
 import { env } from './env'
 
+// Por padrão, o driver pg devolve as colunas bigint e numeric (inclusive os resultados de sum) como string, para não perder precisão.
+// Os valores monetários são inteiros em centavos, bem abaixo do limite de inteiros seguros do JavaScript, então podemos convertê-los para number
+types.setTypeParser(types.builtins.INT8, Number)
+types.setTypeParser(types.builtins.NUMERIC, Number)
+
+// As colunas date (como a data das cotações) são mantidas como texto 'YYYY-MM-DD', igual ao SQLite, em vez de virarem um Date à meia-noite do fuso local
+types.setTypeParser(types.builtins.DATE, (value) => value)
+
 export const config: Knex.Config = {
   client: env.DATABASE_CLIENT,
   connection:
@@ -17,3 +26,39 @@ export const config: Knex.Config = {
 }
 
 export const knex = setupKnex(config)
+
+// Converte uma data para o formato usado nas comparações com colunas de data/hora do banco de dados.
+// No SQLite, as datas são armazenadas como texto no formato 'YYYY-MM-DD HH:MM:SS' (UTC), então a comparação é feita entre strings.
+// No PostgreSQL, o driver pg converte o objeto Date corretamente para o tipo timestamp.
+export function toDatabaseDate(date: Date) {
+  if (env.DATABASE_CLIENT === 'sqlite') {
+    return date.toISOString().replace('T', ' ').slice(0, 19)
+  }
+
+  return date
+}
+
+// Faz o caminho inverso de toDatabaseDate: converte o valor de uma coluna de data/hora lida do banco de dados para Date.
+// O SQLite devolve o texto 'YYYY-MM-DD HH:MM:SS' (UTC) e o driver pg devolve um objeto Date
+export function parseDatabaseDate(value: string | Date) {
+  if (value instanceof Date) {
+    return value
+  }
+
+  return new Date(`${value.replace(' ', 'T')}Z`)
+}
+
+// Quantidade máxima de valores passados para um whereIn em uma única consulta. Os bancos de dados limitam a quantidade de parâmetros de uma consulta
+// (no SQLite, 32766 nas versões atuais e 999 nas antigas), então as listas maiores (como os ids de um extrato importado) são consultadas em partes
+export const WHERE_IN_CHUNK_SIZE = 500
+
+// Divide uma lista em partes de até size itens
+export function chunk<T>(values: T[], size = WHERE_IN_CHUNK_SIZE) {
+  const chunks: T[][] = []
+
+  for (let start = 0; start < values.length; start += size) {
+    chunks.push(values.slice(start, start + size))
+  }
+
+  return chunks
+}
@@ -14,6 +14,18 @@ const envSchema = z.object({
   DATABASE_URL: z.string(),
   DATABASE_CLIENT: z.enum(['sqlite', 'pg']).default('sqlite'),
   PORT: z.coerce.number().default(3333),
+  DEFAULT_CURRENCY: z.string().length(3).default('BRL'), // moeda (ISO 4217) das transações criadas sem moeda
+  RECURRING_SCHEDULER_INTERVAL: z.coerce.number().positive().default(60), // intervalo (em segundos) entre as execuções do agendador de transações recorrentes
+  TRANSACTIONS_BATCH_LIMIT: z.coerce.number().int().positive().default(500), // quantidade máxima de itens em uma criação de transações em lote
+  IDEMPOTENCY_KEY_TTL: z.coerce.number().int().positive().default(86400), // tempo (em segundos) durante o qual uma chave de idempotência é lembrada
+  LEDGER_INVITE_TTL: z.coerce.number().int().positive().default(604800), // tempo (em segundos) de validade de um convite para um livro compartilhado
+  LOG_LEVEL: z
+    .enum(['fatal', 'error', 'warn', 'info', 'debug', 'trace', 'silent'])
+    .default('info'), // nível mínimo dos logs da aplicação (silent desativa os logs)
+  METRICS_ENABLED: z
+    .enum(['true', 'false'])
+    .default('true')
+    .transform((value) => value === 'true'), // com false, a rota /metrics não é registrada e as requisições não são medidas
 })
 
 // O método safeParse realiza tanto a conversão quanto a validação dos dados de entrada (process.env) conforme o esquema definido (envSchema)
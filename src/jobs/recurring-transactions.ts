@@ -0,0 +1,150 @@
+import { randomUUID } from 'node:crypto'
+import type { Tables } from 'knex/types/tables'
+import type { FastifyBaseLogger } from 'fastify'
+import { knex, parseDatabaseDate, toDatabaseDate } from '../database'
+import { getDefaultAccountId } from '../utils/accounts'
+import { listOccurrences, type Schedule } from '../utils/recurrence'
+import { publishTransactionsEvents } from '../utils/transaction-events'
+import { recordCreatedTransactionsHistory } from '../utils/transaction-history'
+
+type RecurringTransaction = Tables['recurring_transactions']
+
+// Converte o registro do banco de dados para o agendamento usado no cálculo das ocorrências
+export function toSchedule(recurring: RecurringTransaction): Schedule {
+  return {
+    startDate: parseDatabaseDate(recurring.start_date),
+    frequency: recurring.frequency,
+    interval: recurring.frequency_interval,
+    weekdays: recurring.weekdays
+      ? recurring.weekdays.split(',').map(Number)
+      : null,
+    dayOfMonth: recurring.day_of_month,
+    endDate: recurring.end_date ? parseDatabaseDate(recurring.end_date) : null,
+    count: recurring.occurrence_count,
+  }
+}
+
+// Cria as transações das ocorrências que já venceram (até a data now) e ainda não foram criadas.
+// A operação é idempotente: o índice único em (recurring_id, occurrence_at) faz o banco de dados ignorar as ocorrências que já existem
+export async function materializeRecurringTransaction(
+  recurring: RecurringTransaction,
+  logger: FastifyBaseLogger,
+  now = new Date(),
+) {
+  const occurrences = listOccurrences(toSchedule(recurring), {
+    after: recurring.materialized_until
+      ? parseDatabaseDate(recurring.materialized_until)
+      : null,
+    until: now,
+  })
+
+  if (occurrences.length === 0) {
+    return 0
+  }
+
+  const inserted = await knex.transaction(async (trx) => {
+    const accountId =
+      recurring.account_id ??
+      (await getDefaultAccountId(trx, recurring.session_id))
+
+    const transactions = occurrences.map((occurrence) => ({
+      id: randomUUID(),
+      title: recurring.title,
+      amount: recurring.amount,
+      currency: recurring.currency,
+      session_id: recurring.session_id,
+      account_id: accountId,
+      category_id: recurring.category_id,
+      recurring_id: recurring.id,
+      occurrence_at: toDatabaseDate(occurrence),
+      created_at: toDatabaseDate(occurrence),
+    }))
+
+    // Inserimos em lotes e ignoramos os conflitos com as ocorrências que já existem
+    for (let index = 0; index < transactions.length; index += 100) {
+      await trx('transactions')
+        .insert(transactions.slice(index, index + 100))
+        .onConflict(['recurring_id', 'occurrence_at'])
+        .ignore()
+    }
+
+    // Apenas as transações realmente inseridas entram no histórico
+    const inserted = await trx('transactions')
+      .whereIn(
+        'id',
+        transactions.map((transaction) => transaction.id),
+      )
+      .select()
+
+    await recordCreatedTransactionsHistory(trx, recurring.session_id, inserted)
+
+    await trx('recurring_transactions')
+      .where('id', recurring.id)
+      .update({
+        materialized_until: toDatabaseDate(occurrences[occurrences.length - 1]),
+      })
+
+    return inserted
+  })
+
+  if (inserted.length > 0) {
+    await publishTransactionsEvents(
+      knex,
+      logger,
+      recurring.session_id,
+      inserted,
+    )
+  }
+
+  return inserted.length
+}
+
+// Cria as ocorrências vencidas de todas as transações recorrentes
+export async function materializeRecurringTransactions(
+  logger: FastifyBaseLogger,
+  now = new Date(),
+) {
+  const recurringTransactions = await knex('recurring_transactions').select()
+
+  let created = 0
+
+  for (const recurring of recurringTransactions) {
+    created += await materializeRecurringTransaction(recurring, logger, now)
+  }
+
+  return created
+}
+
+// Executa materializeRecurringTransactions periodicamente. A próxima execução só é agendada quando a anterior termina, assim duas execuções nunca
+// acontecem ao mesmo tempo. Ao iniciar, as ocorrências que venceram enquanto o servidor estava fora do ar são criadas imediatamente
+// O logger recebido (normalmente app.log) escreve os logs do agendador no mesmo formato dos logs das requisições
+export function startRecurringTransactionsScheduler(
+  intervalInSeconds: number,
+  logger: FastifyBaseLogger,
+) {
+  let timeout: NodeJS.Timeout | undefined
+  let stopped = false
+
+  async function run() {
+    try {
+      const created = await materializeRecurringTransactions(logger)
+
+      if (created > 0) {
+        logger.info({ created }, 'Transações recorrentes criadas.')
+      }
+    } catch (error) {
+      logger.error(error, 'Erro ao criar as transações recorrentes.')
+    }
+
+    if (!stopped) {
+      timeout = setTimeout(run, intervalInSeconds * 1000)
+    }
+  }
+
+  run()
+
+  return () => {
+    stopped = true
+    clearTimeout(timeout)
+  }
+}
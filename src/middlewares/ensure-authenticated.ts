@@ -0,0 +1,13 @@
+import { FastifyRequest } from 'fastify'
+import { UnauthorizedError } from '../utils/errors'
+
+// Bloqueia as rotas que precisam identificar o cliente, seja por um usuário autenticado ou por uma sessão anônima.
+// O erro lançado é convertido pelo tratador de erros global (src/middlewares/error-handler.ts) em uma resposta 401.
+// O parâmetro usa apenas sessionId para não interferir na inferência dos tipos da requisição nas rotas com o ZodTypeProvider
+export async function ensureAuthenticated(
+  request: Pick<FastifyRequest, 'sessionId'>,
+) {
+  if (!request.sessionId) {
+    throw new UnauthorizedError()
+  }
+}
@@ -0,0 +1,16 @@
+import { FastifyRequest } from 'fastify'
+import { ForbiddenError } from '../utils/errors'
+
+// Métodos HTTP que apenas consultam dados
+const readOnlyMethods = ['GET', 'HEAD', 'OPTIONS']
+
+// Hook das rotas com os dados do livro (veja src/app.ts), executado depois do resolveAuth. Os leitores (viewer) de um livro compartilhado podem usar apenas
+// as rotas de consulta (listagens, resumos, exportação...). As demais são recusadas com o status 403
+export async function ensureLedgerWriteAccess(request: FastifyRequest) {
+  if (
+    request.ledgerRole === 'viewer' &&
+    !readOnlyMethods.includes(request.method)
+  ) {
+    throw new ForbiddenError('Os leitores do livro não podem alterar os dados.')
+  }
+}
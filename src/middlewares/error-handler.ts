@@ -0,0 +1,80 @@
+import type { FastifyError, FastifyReply, FastifyRequest } from 'fastify'
+import { z, ZodError } from 'zod'
+import { AppError, errorResponseSchema } from '../utils/errors'
+
+// Formato de todas as respostas de erro da API
+export type ErrorResponse = z.infer<typeof errorResponseSchema>
+
+function sendError(
+  response: FastifyReply,
+  statusCode: number,
+  body: ErrorResponse,
+) {
+  return response.status(statusCode).send(body)
+}
+
+// Tratador de erros global: recebe os erros lançados (ou rejeitados) pelas rotas e pelos hooks e os converte em uma resposta com o formato ErrorResponse
+export function errorHandler(
+  error: FastifyError | Error,
+  request: FastifyRequest,
+  response: FastifyReply,
+) {
+  // Os dados de entrada (corpo, parâmetros, query string e cabeçalhos) são validados com o parse do Zod, seja na própria rota ou pelos esquemas
+  // registrados nas opções da rota (o validatorCompiler de fastify-type-provider-zod repassa o ZodError ao Fastify)
+  if (error instanceof ZodError) {
+    return sendError(response, 400, {
+      code: 'VALIDATION_ERROR',
+      message: 'A requisição contém dados inválidos.',
+      issues: error.issues.map((issue) => ({
+        field: issue.path.join('.'),
+        message: issue.message,
+      })),
+    })
+  }
+
+  if (error instanceof AppError) {
+    return sendError(response, error.statusCode, {
+      code: error.code,
+      message: error.message,
+      issues: error.issues,
+    })
+  }
+
+  // Erros do próprio Fastify e dos seus plugins com status 4xx (ex.: JSON inválido no corpo, arquivo maior que o limite) são erros do cliente
+  const statusCode = 'statusCode' in error ? error.statusCode : undefined
+
+  if (statusCode && statusCode >= 400 && statusCode < 500) {
+    return sendError(response, statusCode, {
+      code: 'code' in error && error.code ? error.code : 'BAD_REQUEST',
+      message: error.message,
+      issues: [],
+    })
+  }
+
+  // Qualquer outro erro é inesperado. Os detalhes ficam apenas no log, para não expor a estrutura interna da aplicação ao cliente
+  request.log.error(error)
+
+  return sendError(response, 500, {
+    code: 'INTERNAL_SERVER_ERROR',
+    message: 'Erro interno do servidor.',
+    issues: [],
+  })
+}
+
+// Resposta para as rotas que não existem, no mesmo formato dos demais erros
+export function notFoundHandler(
+  request: FastifyRequest,
+  response: FastifyReply,
+) {
+  return sendError(response, 404, {
+    code: 'NOT_FOUND',
+    message: `Rota ${request.method} ${request.url} não encontrada.`,
+    issues: [],
+  })
+}
+
+/*
+Observações:
+- O Fastify chama o tratador registrado com setErrorHandler sempre que uma rota ou um hook lança um erro (ou devolve uma Promise rejeitada). Por isso, as
+rotas podem simplesmente lançar um AppError (ou deixar o parse do Zod lançar um ZodError), sem tratar o erro em cada uma delas.
+*/
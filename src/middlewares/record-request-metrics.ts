@@ -0,0 +1,24 @@
+import type { FastifyReply, FastifyRequest } from 'fastify'
+import {
+  httpRequestDurationHistogram,
+  httpRequestsCounter,
+} from '../utils/metrics'
+
+// Hook executado depois que a resposta de cada requisição é enviada (onResponse). Conta a requisição e registra o tempo de resposta da rota acessada
+export async function recordRequestMetrics(
+  request: FastifyRequest,
+  response: FastifyReply,
+) {
+  const labels = {
+    method: request.method,
+    // As requisições que não correspondem a nenhuma rota são agrupadas, pois cada URL diferente geraria uma nova série
+    route: request.routeOptions.url || 'not_found',
+    status_code: response.statusCode,
+  }
+
+  httpRequestsCounter.inc(labels)
+  httpRequestDurationHistogram.observe(
+    labels,
+    response.getResponseTime() / 1000,
+  )
+}
@@ -0,0 +1,29 @@
+import { randomUUID } from 'node:crypto'
+import type { IncomingMessage } from 'node:http'
+import type { FastifyReply, FastifyRequest } from 'fastify'
+
+// Cabeçalho que carrega o id da requisição. O Node.js deixa os nomes dos cabeçalhos recebidos em letras minúsculas
+export const REQUEST_ID_HEADER = 'x-request-id'
+
+// Apenas ids curtos e com caracteres seguros são reaproveitados, para que o valor enviado pelo cliente não possa corromper os logs
+const requestIdPattern = /^[\w.:-]{1,128}$/
+
+// Gera o id de cada requisição (opção genReqId do Fastify). Um id recebido no cabeçalho X-Request-Id (enviado por um proxy ou pelo próprio cliente) é
+// reaproveitado, assim a mesma requisição pode ser seguida nos logs de todos os serviços por onde passou
+export function generateRequestId(rawRequest: IncomingMessage) {
+  const requestId = rawRequest.headers[REQUEST_ID_HEADER]
+
+  if (typeof requestId === 'string' && requestIdPattern.test(requestId)) {
+    return requestId
+  }
+
+  return randomUUID()
+}
+
+// Hook executado em todas as requisições: devolve o id da requisição no cabeçalho X-Request-Id, para que o cliente possa informá-lo ao relatar um problema
+export async function sendRequestId(
+  request: FastifyRequest,
+  response: FastifyReply,
+) {
+  response.header(REQUEST_ID_HEADER, request.id)
+}
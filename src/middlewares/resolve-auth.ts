@@ -0,0 +1,84 @@
+import { FastifyRequest } from 'fastify'
+import { z } from 'zod'
+import { knex, toDatabaseDate } from '../database'
+import { hashToken } from '../utils/auth'
+import { ForbiddenError, UnauthorizedError } from '../utils/errors'
+import { findLedgerMembership } from '../utils/ledgers'
+
+// O cabeçalho Ledger-Id é opcional: sem ele, a requisição acessa o livro pessoal do cliente
+const ledgerIdHeaderSchema = z.string().uuid().optional()
+
+// Verifica se o session_id pertence a um usuário cadastrado ou a um livro que não é o livro pessoal dessa sessão
+async function isReservedSessionId(sessionId: string) {
+  const user = await knex('users').where('session_id', sessionId).first()
+
+  if (user) {
+    return true
+  }
+
+  const ledger = await knex('ledgers').where('session_id', sessionId).first()
+
+  // O livro pessoal de uma sessão anônima usa o session_id dela, e ela é a dona (membro) do livro
+  return (
+    ledger !== undefined &&
+    !(await findLedgerMembership(knex, ledger.id, sessionId))
+  )
+}
+
+// Hook executado em todas as requisições. Identifica o cliente e preenche request.user, request.personalSessionId, request.sessionId e request.ledgerRole:
+// - com um token de login válido, o cliente é o usuário dono do token, e o seu session_id é o do usuário;
+// - sem login, o cliente é anônimo e o seu session_id é o do cookie sessionId (como era antes de existirem usuários);
+// - com o cabeçalho Ledger-Id, os dados acessados são os do livro informado, desde que o cliente seja membro dele. Sem o cabeçalho, são os do livro pessoal.
+export async function resolveAuth(request: FastifyRequest) {
+  request.user = null
+  request.personalSessionId = ''
+  request.sessionId = ''
+  request.ledgerRole = null
+
+  const { token, sessionId } = request.cookies
+
+  if (token) {
+    const user = await knex('user_sessions')
+      .join('users', 'users.id', 'user_sessions.user_id')
+      .where('user_sessions.token_hash', hashToken(token))
+      .where('user_sessions.expires_at', '>', toDatabaseDate(new Date()))
+      .select('users.id', 'users.email', 'users.session_id')
+      .first()
+
+    if (user) {
+      request.user = { id: user.id, email: user.email }
+      request.personalSessionId = user.session_id
+    }
+  }
+
+  if (!request.user && sessionId) {
+    // O cookie sessionId só identifica sessões anônimas. O session_id de um usuário cadastrado ou de um livro compartilhado (que não pertence a nenhuma
+    // sessão) nunca é enviado em um cookie, então um cookie com um deles foi forjado e é recusado. Sem isso, quem descobrisse o session_id de um livro
+    // poderia acessá-lo como dono, sem ser membro dele
+    if (await isReservedSessionId(sessionId)) {
+      throw new UnauthorizedError('Sessão inválida.')
+    }
+
+    request.personalSessionId = sessionId
+  }
+
+  if (request.personalSessionId) {
+    request.sessionId = request.personalSessionId
+    request.ledgerRole = 'owner'
+  }
+
+  const ledgerId = ledgerIdHeaderSchema.parse(request.headers['ledger-id'])
+
+  if (ledgerId) {
+    const membership =
+      request.personalSessionId &&
+      (await findLedgerMembership(knex, ledgerId, request.personalSessionId))
+
+    if (!membership) {
+      throw new ForbiddenError('Você não é membro deste livro.')
+    }
+
+    request.sessionId = membership.ledger_session_id
+    request.ledgerRole = membership.role
+  }
+}
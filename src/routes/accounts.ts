@@ -0,0 +1,171 @@
+import { randomUUID } from 'node:crypto'
+import type { FastifyInstance } from 'fastify'
+import { z } from 'zod'
+import { knex } from '../database'
+import { ensureAuthenticated } from '../middlewares/ensure-authenticated'
+import { accountKinds, getAccountsWithBalance } from '../utils/accounts'
+import { ConflictError, NotFoundError } from '../utils/errors'
+import { minorUnitsSchema } from '../utils/money'
+import { ensureSessionId, omitSessionId } from '../utils/session'
+
+export async function accountsRoutes(app: FastifyInstance) {
+  // Criação de contas (dinheiro, conta corrente, poupança ou cartão de crédito)
+  app.post('/', async (request, response) => {
+    const createAccountBodySchema = z.object({
+      name: z.string().trim().min(1),
+      kind: z.enum(accountKinds),
+      openingBalance: minorUnitsSchema.default(0), // saldo da conta (em centavos) antes da primeira transação registrada
+    })
+
+    const { name, kind, openingBalance } = createAccountBodySchema.parse(
+      request.body,
+    )
+
+    const sessionId = ensureSessionId(request, response)
+
+    const account = {
+      id: randomUUID(),
+      session_id: sessionId,
+      name,
+      kind,
+      opening_balance: openingBalance,
+    }
+
+    await knex('accounts').insert(account)
+
+    return response.status(201).send({ account: omitSessionId(account) })
+  })
+
+  // Listagem das contas com o saldo atual de cada uma
+  app.get(
+    '/',
+    {
+      preHandler: [ensureAuthenticated],
+    },
+    async (request) => {
+      const { sessionId } = request
+
+      const accounts = await getAccountsWithBalance(knex, sessionId)
+
+      return { accounts }
+    },
+  )
+
+  // Obter uma conta específica com o seu saldo atual
+  app.get(
+    '/:id',
+    {
+      preHandler: [ensureAuthenticated],
+    },
+    async (request) => {
+      const getAccountParamsSchema = z.object({
+        id: z.string().uuid(),
+      })
+
+      const { id } = getAccountParamsSchema.parse(request.params)
+
+      const { sessionId } = request
+
+      const accounts = await getAccountsWithBalance(knex, sessionId)
+      const account = accounts.find((account) => account.id === id)
+
+      if (!account) {
+        throw new NotFoundError('Conta não encontrada.')
+      }
+
+      return { account }
+    },
+  )
+
+  // Edição de uma conta
+  app.patch(
+    '/:id',
+    {
+      preHandler: [ensureAuthenticated],
+    },
+    async (request) => {
+      const updateAccountParamsSchema = z.object({
+        id: z.string().uuid(),
+      })
+
+      const updateAccountBodySchema = z
+        .object({
+          name: z.string().trim().min(1),
+          kind: z.enum(accountKinds),
+          openingBalance: minorUnitsSchema,
+        })
+        .partial()
+        .refine((body) => Object.keys(body).length > 0, {
+          message: 'Informe pelo menos um campo para ser alterado.',
+        })
+
+      const { id } = updateAccountParamsSchema.parse(request.params)
+      const { name, kind, openingBalance } = updateAccountBodySchema.parse(
+        request.body,
+      )
+
+      const { sessionId } = request
+
+      const updatedRows = await knex('accounts')
+        .where({ session_id: sessionId, id })
+        .update({ name, kind, opening_balance: openingBalance }) // o knex ignora as propriedades com valor undefined
+
+      if (updatedRows === 0) {
+        throw new NotFoundError('Conta não encontrada.')
+      }
+
+      const account = await knex('accounts').where({ id }).first()
+
+      return { account: account && omitSessionId(account) }
+    },
+  )
+
+  // Exclusão de uma conta. Só é permitida se a conta não tiver transações (inclusive as excluídas, que ainda podem ser restauradas) nem transações recorrentes
+  app.delete(
+    '/:id',
+    {
+      preHandler: [ensureAuthenticated],
+    },
+    async (request, response) => {
+      const deleteAccountParamsSchema = z.object({
+        id: z.string().uuid(),
+      })
+
+      const { id } = deleteAccountParamsSchema.parse(request.params)
+
+      const { sessionId } = request
+
+      const account = await knex('accounts')
+        .where({ session_id: sessionId, id })
+        .first()
+
+      if (!account) {
+        throw new NotFoundError('Conta não encontrada.')
+      }
+
+      const transaction = await knex('transactions')
+        .where('account_id', id)
+        .first()
+
+      if (transaction) {
+        throw new ConflictError(
+          'A conta possui transações e não pode ser excluída.',
+        )
+      }
+
+      const recurring = await knex('recurring_transactions')
+        .where('account_id', id)
+        .first()
+
+      if (recurring) {
+        throw new ConflictError(
+          'A conta possui transações recorrentes e não pode ser excluída.',
+        )
+      }
+
+      await knex('accounts').where({ id }).delete()
+
+      return response.status(204).send()
+    },
+  )
+}
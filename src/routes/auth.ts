@@ -0,0 +1,114 @@
+import { randomUUID } from 'node:crypto'
+import type { FastifyInstance } from 'fastify'
+import { z } from 'zod'
+import { knex } from '../database'
+import { ensureAuthenticated } from '../middlewares/ensure-authenticated'
+import { createUserSession, hashToken, sessionOwnedTables } from '../utils/auth'
+import { ConflictError, UnauthorizedError } from '../utils/errors'
+import { hashPassword, verifyPassword } from '../utils/password'
+
+export async function authRoutes(app: FastifyInstance) {
+  // Cadastro de usuários. Os dados da sessão anônima atual (se existir) passam a pertencer ao novo usuário
+  app.post('/register', async (request, response) => {
+    const registerBodySchema = z.object({
+      email: z.string().trim().toLowerCase().email(),
+      password: z.string().min(8),
+    })
+
+    const { email, password } = registerBodySchema.parse(request.body)
+
+    if (request.user) {
+      throw new ConflictError('Já existe um usuário autenticado.')
+    }
+
+    const userWithSameEmail = await knex('users').where({ email }).first()
+
+    if (userWithSameEmail) {
+      throw new ConflictError('Já existe um usuário com este e-mail.')
+    }
+
+    const user = {
+      id: randomUUID(),
+      email,
+    }
+
+    const passwordHash = await hashPassword(password)
+
+    await knex.transaction(async (trx) => {
+      // O usuário recebe um session_id novo, que nunca foi enviado em um cookie. Assim, quem tiver uma cópia do cookie sessionId anônimo não consegue
+      // acessar os dados depois que eles passam a pertencer ao usuário
+      const sessionId = randomUUID()
+
+      await trx('users').insert({
+        ...user,
+        password_hash: passwordHash,
+        session_id: sessionId,
+      })
+
+      // Os dados transferidos são os da sessão anônima (o livro pessoal dela), mesmo que a requisição acesse um livro compartilhado (cabeçalho Ledger-Id)
+      if (request.personalSessionId) {
+        for (const table of sessionOwnedTables) {
+          await trx(table)
+            .where('session_id', request.personalSessionId)
+            .update({ session_id: sessionId })
+        }
+      }
+
+      await createUserSession(trx, user.id, response)
+    })
+
+    // O cookie sessionId não é mais necessário, pois o cliente passa a ser identificado pelo token
+    response.clearCookie('sessionId', { path: '/' })
+
+    return response.status(201).send({ user })
+  })
+
+  // Login
+  app.post('/login', async (request, response) => {
+    const loginBodySchema = z.object({
+      email: z.string().trim().toLowerCase().email(),
+      password: z.string(),
+    })
+
+    const { email, password } = loginBodySchema.parse(request.body)
+
+    const user = await knex('users').where({ email }).first()
+
+    // A mesma mensagem é usada para e-mail e senha inválidos, assim não revelamos quais e-mails estão cadastrados
+    if (!user || !(await verifyPassword(password, user.password_hash))) {
+      throw new UnauthorizedError('E-mail ou senha inválidos.')
+    }
+
+    await createUserSession(knex, user.id, response)
+
+    return { user: { id: user.id, email: user.email } }
+  })
+
+  // Logout: encerra apenas o login atual (os logins em outros dispositivos continuam válidos)
+  app.post('/logout', async (request, response) => {
+    const { token } = request.cookies
+
+    if (token) {
+      await knex('user_sessions').where('token_hash', hashToken(token)).delete()
+    }
+
+    response.clearCookie('token', { path: '/' })
+
+    return response.status(204).send()
+  })
+
+  // Obter o usuário autenticado
+  app.get(
+    '/me',
+    {
+      preHandler: [ensureAuthenticated],
+    },
+    async (request) => {
+      if (!request.user) {
+        throw new UnauthorizedError()
+      }
+
+      return { user: request.user }
+    },
+  )
+}
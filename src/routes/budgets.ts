@@ -0,0 +1,213 @@
+import { randomUUID } from 'node:crypto'
+import type { FastifyInstance } from 'fastify'
+import { z } from 'zod'
+import { knex } from '../database'
+import { ensureAuthenticated } from '../middlewares/ensure-authenticated'
+import {
+  formatBudget,
+  getBudgetStatus,
+  monthSchema,
+  toMonth,
+} from '../utils/budgets'
+import { BadRequestError, NotFoundError } from '../utils/errors'
+import {
+  currencySchema,
+  DEFAULT_CURRENCY,
+  minorUnitsSchema,
+} from '../utils/money'
+import { ensureSessionId } from '../utils/session'
+
+export async function budgetsRoutes(app: FastifyInstance) {
+  // Criação de orçamentos (limite de gastos por mês)
+  app.post('/', async (request, response) => {
+    const createBudgetBodySchema = z.object({
+      name: z.string().trim().min(1),
+      amount: minorUnitsSchema.positive(), // limite mensal em unidades menores da moeda (centavos)
+      currency: currencySchema.default(DEFAULT_CURRENCY),
+      categoryId: z.string().uuid().optional(), // considera apenas os gastos desta categoria
+      titlePattern: z.string().trim().min(1).optional(), // considera apenas os gastos com este trecho no título (* corresponde a qualquer texto)
+      rollover: z.boolean().default(false), // com rollover, o valor não usado em um mês passa para o mês seguinte
+      startMonth: monthSchema.optional(), // sem startMonth, o orçamento começa no mês atual
+    })
+
+    const {
+      name,
+      amount,
+      currency,
+      categoryId,
+      titlePattern,
+      rollover,
+      startMonth,
+    } = createBudgetBodySchema.parse(request.body)
+
+    const sessionId = ensureSessionId(request, response)
+
+    if (categoryId) {
+      const category = await knex('categories')
+        .where({ session_id: sessionId, id: categoryId })
+        .first()
+
+      if (!category) {
+        throw new BadRequestError('Categoria não encontrada.')
+      }
+    }
+
+    const id = randomUUID()
+
+    await knex('budgets').insert({
+      id,
+      session_id: sessionId,
+      name,
+      amount,
+      currency,
+      category_id: categoryId ?? null,
+      title_pattern: titlePattern ?? null,
+      rollover,
+      start_month: startMonth ?? toMonth(new Date()),
+    })
+
+    const budget = await knex('budgets').where({ id }).first()
+
+    return response.status(201).send({ budget: budget && formatBudget(budget) })
+  })
+
+  // Listagem dos orçamentos
+  app.get(
+    '/',
+    {
+      preHandler: [ensureAuthenticated],
+    },
+    async (request) => {
+      const { sessionId } = request
+
+      const budgets = await knex('budgets')
+        .where('session_id', sessionId)
+        .orderBy('name')
+        .select()
+
+      return { budgets: budgets.map(formatBudget) }
+    },
+  )
+
+  // Situação de cada orçamento no mês: gasto, saldo restante e percentual usado
+  app.get(
+    '/status',
+    {
+      preHandler: [ensureAuthenticated],
+    },
+    async (request) => {
+      const getBudgetsStatusQuerySchema = z.object({
+        month: monthSchema.optional(), // sem month, é usado o mês atual
+      })
+
+      const { month = toMonth(new Date()) } = getBudgetsStatusQuerySchema.parse(
+        request.query,
+      )
+
+      const { sessionId } = request
+
+      // Os orçamentos que começam depois do mês consultado ficam de fora
+      const budgets = await knex('budgets')
+        .where('session_id', sessionId)
+        .where('start_month', '<=', month)
+        .orderBy('name')
+        .select()
+
+      const status = []
+
+      for (const budget of budgets) {
+        status.push(await getBudgetStatus(knex, budget, month))
+      }
+
+      return { month, status }
+    },
+  )
+
+  // Edição de um orçamento
+  app.patch(
+    '/:id',
+    {
+      preHandler: [ensureAuthenticated],
+    },
+    async (request) => {
+      const updateBudgetParamsSchema = z.object({
+        id: z.string().uuid(),
+      })
+
+      const updateBudgetBodySchema = z
+        .object({
+          name: z.string().trim().min(1),
+          amount: minorUnitsSchema.positive(),
+          categoryId: z.string().uuid().nullable(), // com null, o orçamento deixa de ser restrito a uma categoria
+          titlePattern: z.string().trim().min(1).nullable(),
+          rollover: z.boolean(),
+        })
+        .partial()
+        .refine((body) => Object.keys(body).length > 0, {
+          message: 'Informe pelo menos um campo para ser alterado.',
+        })
+
+      const { id } = updateBudgetParamsSchema.parse(request.params)
+      const body = updateBudgetBodySchema.parse(request.body)
+
+      const { sessionId } = request
+
+      const before = await knex('budgets')
+        .where({ session_id: sessionId, id })
+        .first()
+
+      if (!before) {
+        throw new NotFoundError('Orçamento não encontrado.')
+      }
+
+      if (body.categoryId) {
+        const category = await knex('categories')
+          .where({ session_id: sessionId, id: body.categoryId })
+          .first()
+
+        if (!category) {
+          throw new BadRequestError('Categoria não encontrada.')
+        }
+      }
+
+      await knex('budgets').where({ id }).update({
+        name: body.name,
+        amount: body.amount,
+        category_id: body.categoryId,
+        title_pattern: body.titlePattern,
+        rollover: body.rollover,
+      }) // o knex ignora as propriedades com valor undefined
+
+      const budget = await knex('budgets').where({ id }).first()
+
+      return { budget: budget && formatBudget(budget) }
+    },
+  )
+
+  // Exclusão de um orçamento. As transações não são afetadas
+  app.delete(
+    '/:id',
+    {
+      preHandler: [ensureAuthenticated],
+    },
+    async (request, response) => {
+      const deleteBudgetParamsSchema = z.object({
+        id: z.string().uuid(),
+      })
+
+      const { id } = deleteBudgetParamsSchema.parse(request.params)
+
+      const { sessionId } = request
+
+      const deletedRows = await knex('budgets')
+        .where({ session_id: sessionId, id })
+        .delete()
+
+      if (deletedRows === 0) {
+        throw new NotFoundError('Orçamento não encontrado.')
+      }
+
+      return response.status(204).send()
+    },
+  )
+}
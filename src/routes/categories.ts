@@ -0,0 +1,180 @@
+import { randomUUID } from 'node:crypto'
+import type { FastifyInstance } from 'fastify'
+import { z } from 'zod'
+import { knex } from '../database'
+import { ensureAuthenticated } from '../middlewares/ensure-authenticated'
+import { ConflictError, NotFoundError } from '../utils/errors'
+import { ensureSessionId, omitSessionId } from '../utils/session'
+
+export async function categoriesRoutes(app: FastifyInstance) {
+  // Criação de categorias
+  app.post('/', async (request, response) => {
+    const createCategoryBodySchema = z.object({
+      name: z.string().trim().min(1),
+    })
+
+    const { name } = createCategoryBodySchema.parse(request.body)
+
+    const sessionId = ensureSessionId(request, response)
+
+    const categoryWithSameName = await knex('categories')
+      .where({ session_id: sessionId, name })
+      .first()
+
+    if (categoryWithSameName) {
+      throw new ConflictError('Já existe uma categoria com este nome.')
+    }
+
+    const category = {
+      id: randomUUID(),
+      session_id: sessionId,
+      name,
+    }
+
+    await knex('categories').insert(category)
+
+    return response.status(201).send({ category: omitSessionId(category) })
+  })
+
+  // Listagem das categorias
+  app.get(
+    '/',
+    {
+      preHandler: [ensureAuthenticated],
+    },
+    async (request) => {
+      const { sessionId } = request
+
+      const categories = await knex('categories')
+        .where('session_id', sessionId)
+        .orderBy('name')
+        .select()
+
+      return { categories: categories.map(omitSessionId) }
+    },
+  )
+
+  // Obter uma categoria específica
+  app.get(
+    '/:id',
+    {
+      preHandler: [ensureAuthenticated],
+    },
+    async (request) => {
+      const getCategoryParamsSchema = z.object({
+        id: z.string().uuid(),
+      })
+
+      const { id } = getCategoryParamsSchema.parse(request.params)
+
+      const { sessionId } = request
+
+      const category = await knex('categories')
+        .where({ session_id: sessionId, id })
+        .first()
+
+      if (!category) {
+        throw new NotFoundError('Categoria não encontrada.')
+      }
+
+      return { category: omitSessionId(category) }
+    },
+  )
+
+  // Renomear uma categoria
+  app.put(
+    '/:id',
+    {
+      preHandler: [ensureAuthenticated],
+    },
+    async (request) => {
+      const updateCategoryParamsSchema = z.object({
+        id: z.string().uuid(),
+      })
+
+      const updateCategoryBodySchema = z.object({
+        name: z.string().trim().min(1),
+      })
+
+      const { id } = updateCategoryParamsSchema.parse(request.params)
+      const { name } = updateCategoryBodySchema.parse(request.body)
+
+      const { sessionId } = request
+
+      const category = await knex('categories')
+        .where({ session_id: sessionId, id })
+        .first()
+
+      if (!category) {
+        throw new NotFoundError('Categoria não encontrada.')
+      }
+
+      const categoryWithSameName = await knex('categories')
+        .where({ session_id: sessionId, name })
+        .whereNot('id', id)
+        .first()
+
+      if (categoryWithSameName) {
+        throw new ConflictError('Já existe uma categoria com este nome.')
+      }
+
+      await knex('categories').where({ id }).update({ name })
+
+      return { category: { ...omitSessionId(category), name } }
+    },
+  )
+
+  // Exclusão de uma categoria. As transações da categoria não são excluídas, elas apenas ficam sem categoria
+  app.delete(
+    '/:id',
+    {
+      preHandler: [ensureAuthenticated],
+    },
+    async (request, response) => {
+      const deleteCategoryParamsSchema = z.object({
+        id: z.string().uuid(),
+      })
+
+      const { id } = deleteCategoryParamsSchema.parse(request.params)
+
+      const { sessionId } = request
+
+      // Sem a categoria, o orçamento passaria a considerar todos os gastos, então ele precisa ser alterado ou excluído antes
+      const budget = await knex('budgets')
+        .where({ session_id: sessionId, category_id: id })
+        .first()
+
+      if (budget) {
+        throw new ConflictError(
+          'A categoria é usada por um orçamento e não pode ser excluída.',
+        )
+      }
+
+      const deleted = await knex.transaction(async (trx) => {
+        const deletedRows = await trx('categories')
+          .where({ session_id: sessionId, id })
+          .delete()
+
+        if (deletedRows === 0) {
+          return false
+        }
+
+        await trx('transactions')
+          .where('category_id', id)
+          .update({ category_id: null })
+
+        await trx('recurring_transactions')
+          .where('category_id', id)
+          .update({ category_id: null })
+
+        return true
+      })
+
+      if (!deleted) {
+        throw new NotFoundError('Categoria não encontrada.')
+      }
+
+      return response.status(204).send()
+    },
+  )
+}
@@ -0,0 +1,13 @@
+import type { FastifyInstance } from 'fastify'
+import swaggerUi from '@fastify/swagger-ui'
+
+// Documentação da API: o documento OpenAPI (gerado pelo plugin @fastify/swagger, registrado em src/app.ts) e a interface de documentação (Swagger UI)
+export async function docsRoutes(app: FastifyInstance) {
+  app.get('/openapi.json', { schema: { hide: true } }, async () => {
+    return app.swagger()
+  })
+
+  app.register(swaggerUi, {
+    routePrefix: '/docs',
+  })
+}
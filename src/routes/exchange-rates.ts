@@ -0,0 +1,124 @@
+import { randomUUID } from 'node:crypto'
+import type { FastifyInstance } from 'fastify'
+import { z } from 'zod'
+import { knex } from '../database'
+import { ensureAuthenticated } from '../middlewares/ensure-authenticated'
+import { NotFoundError } from '../utils/errors'
+import { currencySchema } from '../utils/money'
+import { ensureSessionId, omitSessionId } from '../utils/session'
+
+export async function exchangeRatesRoutes(app: FastifyInstance) {
+  // Cadastro (ou atualização) da cotação de um par de moedas em uma data
+  app.post('/', async (request, response) => {
+    const createExchangeRateBodySchema = z
+      .object({
+        baseCurrency: currencySchema,
+        quoteCurrency: currencySchema,
+        date: z
+          .string()
+          .regex(/^\d{4}-\d{2}-\d{2}$/, 'Use o formato YYYY-MM-DD.'), // a cotação vale a partir desta data
+        rate: z.number().positive(), // quantas unidades de quoteCurrency valem uma unidade de baseCurrency
+      })
+      .refine((body) => body.baseCurrency !== body.quoteCurrency, {
+        message: 'As moedas do par devem ser diferentes.',
+        path: ['quoteCurrency'],
+      })
+
+    const { baseCurrency, quoteCurrency, date, rate } =
+      createExchangeRateBodySchema.parse(request.body)
+
+    const sessionId = ensureSessionId(request, response)
+
+    // Uma nova cotação para o mesmo par e data substitui a anterior
+    await knex('exchange_rates')
+      .insert({
+        id: randomUUID(),
+        session_id: sessionId,
+        base_currency: baseCurrency,
+        quote_currency: quoteCurrency,
+        date,
+        rate,
+      })
+      .onConflict(['session_id', 'base_currency', 'quote_currency', 'date'])
+      .merge(['rate'])
+
+    const exchangeRate = await knex('exchange_rates')
+      .where({
+        session_id: sessionId,
+        base_currency: baseCurrency,
+        quote_currency: quoteCurrency,
+        date,
+      })
+      .first()
+
+    return response
+      .status(201)
+      .send({ exchangeRate: exchangeRate && omitSessionId(exchangeRate) })
+  })
+
+  // Listagem das cotações, opcionalmente filtradas pelas moedas do par
+  app.get(
+    '/',
+    {
+      preHandler: [ensureAuthenticated],
+    },
+    async (request) => {
+      const listExchangeRatesQuerySchema = z.object({
+        baseCurrency: currencySchema.optional(),
+        quoteCurrency: currencySchema.optional(),
+      })
+
+      const { baseCurrency, quoteCurrency } =
+        listExchangeRatesQuerySchema.parse(request.query)
+
+      const { sessionId } = request
+
+      const query = knex('exchange_rates')
+        .where('session_id', sessionId)
+        .orderBy([
+          'base_currency',
+          'quote_currency',
+          { column: 'date', order: 'desc' },
+        ])
+
+      if (baseCurrency) {
+        query.where('base_currency', baseCurrency)
+      }
+
+      if (quoteCurrency) {
+        query.where('quote_currency', quoteCurrency)
+      }
+
+      const exchangeRates = await query.select()
+
+      return { exchangeRates: exchangeRates.map(omitSessionId) }
+    },
+  )
+
+  // Exclusão de uma cotação
+  app.delete(
+    '/:id',
+    {
+      preHandler: [ensureAuthenticated],
+    },
+    async (request, response) => {
+      const deleteExchangeRateParamsSchema = z.object({
+        id: z.string().uuid(),
+      })
+
+      const { id } = deleteExchangeRateParamsSchema.parse(request.params)
+
+      const { sessionId } = request
+
+      const deletedRows = await knex('exchange_rates')
+        .where({ session_id: sessionId, id })
+        .delete()
+
+      if (deletedRows === 0) {
+        throw new NotFoundError('Cotação não encontrada.')
+      }
+
+      return response.status(204).send()
+    },
+  )
+}
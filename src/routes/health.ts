@@ -0,0 +1,36 @@
+import type { FastifyInstance } from 'fastify'
+import { knex } from '../database'
+
+// Rotas consultadas pela plataforma de hospedagem (ou pelo orquestrador) para saber se a aplicação está no ar e se pode receber requisições
+export async function healthRoutes(app: FastifyInstance) {
+  // Liveness: o processo está no ar e respondendo. Não consulta o banco de dados, para que uma falha dele não faça a aplicação ser reiniciada
+  app.get('/health', { schema: { hide: true } }, async () => {
+    return { status: 'ok' }
+  })
+
+  // Readiness: a aplicação consegue acessar o banco de dados e todas as migrations já foram executadas
+  app.get('/ready', { schema: { hide: true } }, async (request, response) => {
+    try {
+      await knex.raw('select 1')
+
+      // O segundo item são as migrations do diretório db/migrations que ainda não foram executadas
+      const [, pendingMigrations] = await knex.migrate.list()
+
+      if (pendingMigrations.length > 0) {
+        return response.status(503).send({
+          status: 'unavailable',
+          reason: 'Existem migrations pendentes.',
+        })
+      }
+    } catch (error) {
+      request.log.error(error)
+
+      return response.status(503).send({
+        status: 'unavailable',
+        reason: 'Não foi possível acessar o banco de dados.',
+      })
+    }
+
+    return { status: 'ok' }
+  })
+}
@@ -0,0 +1,287 @@
+import { randomBytes, randomUUID } from 'node:crypto'
+import type { FastifyInstance } from 'fastify'
+import { z } from 'zod'
+import { knex, toDatabaseDate } from '../database'
+import { env } from '../env'
+import { ensureAuthenticated } from '../middlewares/ensure-authenticated'
+import { hashToken } from '../utils/auth'
+import { ConflictError, ForbiddenError, NotFoundError } from '../utils/errors'
+import {
+  findLedgerMembership,
+  getPersonalLedger,
+  inviteRoles,
+} from '../utils/ledgers'
+import { ensureSessionId } from '../utils/session'
+
+// As rotas de livros identificam o cliente pelo seu próprio session_id (request.personalSessionId), e não pelo livro acessado na requisição
+export async function ledgersRoutes(app: FastifyInstance) {
+  // Criação de um livro compartilhado. O cliente é o dono do novo livro
+  app.post('/', async (request, response) => {
+    const createLedgerBodySchema = z.object({
+      name: z.string().trim().min(1),
+    })
+
+    const { name } = createLedgerBodySchema.parse(request.body)
+
+    ensureSessionId(request, response)
+
+    const ledger = {
+      id: randomUUID(),
+      session_id: randomUUID(), // os dados do livro usam um session_id novo, que nunca é enviado ao cliente
+      name,
+    }
+
+    await knex.transaction(async (trx) => {
+      await trx('ledgers').insert(ledger)
+
+      await trx('ledger_members').insert({
+        id: randomUUID(),
+        ledger_id: ledger.id,
+        session_id: request.personalSessionId,
+        role: 'owner',
+      })
+    })
+
+    return response.status(201).send({
+      ledger: { id: ledger.id, name, role: 'owner', personal: false },
+    })
+  })
+
+  // Listagem dos livros de que o cliente participa. O livro pessoal é criado automaticamente, se ainda não existir
+  app.get(
+    '/',
+    {
+      preHandler: [ensureAuthenticated],
+    },
+    async (request) => {
+      const { personalSessionId } = request
+
+      const personalLedger = await getPersonalLedger(knex, personalSessionId)
+
+      const ledgers = await knex('ledgers')
+        .join('ledger_members', 'ledger_members.ledger_id', 'ledgers.id')
+        .where('ledger_members.session_id', personalSessionId)
+        .orderBy('ledgers.created_at')
+        .select(
+          'ledgers.id',
+          'ledgers.name',
+          'ledger_members.role',
+          'ledgers.created_at',
+        )
+
+      return {
+        ledgers: ledgers.map((ledger) => ({
+          ...ledger,
+          personal: ledger.id === personalLedger.id,
+        })),
+      }
+    },
+  )
+
+  // Criação de um convite para o livro. O token devolvido é usado por outra sessão em POST /ledgers/join
+  app.post(
+    '/:id/invites',
+    {
+      preHandler: [ensureAuthenticated],
+    },
+    async (request, response) => {
+      const createInviteParamsSchema = z.object({
+        id: z.string().uuid(),
+      })
+
+      const createInviteBodySchema = z.object({
+        role: z.enum(inviteRoles).default('viewer'),
+      })
+
+      const { id } = createInviteParamsSchema.parse(request.params)
+      const { role } = createInviteBodySchema.parse(request.body ?? {})
+
+      const membership = await findLedgerMembership(
+        knex,
+        id,
+        request.personalSessionId,
+      )
+
+      if (!membership) {
+        throw new NotFoundError('Livro não encontrado.')
+      }
+
+      if (membership.role === 'viewer') {
+        throw new ForbiddenError('Os leitores do livro não podem convidar.')
+      }
+
+      const token = randomBytes(32).toString('base64url')
+      const expiresAt = new Date(Date.now() + env.LEDGER_INVITE_TTL * 1000)
+
+      const invite = {
+        id: randomUUID(),
+        ledger_id: id,
+        role,
+      }
+
+      await knex('ledger_invites').insert({
+        ...invite,
+        token_hash: hashToken(token),
+        expires_at: toDatabaseDate(expiresAt),
+      })
+
+      // O token só é devolvido aqui: o banco de dados guarda apenas o hash
+      return response.status(201).send({
+        invite: { ...invite, token, expires_at: expiresAt.toISOString() },
+      })
+    },
+  )
+
+  // Entrada em um livro com o token de um convite. Cada convite pode ser usado uma única vez
+  app.post('/join', async (request, response) => {
+    const joinLedgerBodySchema = z.object({
+      token: z.string().min(1),
+    })
+
+    const { token } = joinLedgerBodySchema.parse(request.body)
+
+    ensureSessionId(request, response)
+
+    const { personalSessionId } = request
+
+    const ledger = await knex.transaction(async (trx) => {
+      const invite = await trx('ledger_invites')
+        .where('token_hash', hashToken(token))
+        .where('expires_at', '>', toDatabaseDate(new Date()))
+        .first()
+
+      if (!invite) {
+        throw new NotFoundError('Convite inválido ou expirado.')
+      }
+
+      if (
+        await findLedgerMembership(trx, invite.ledger_id, personalSessionId)
+      ) {
+        throw new ConflictError('Você já é membro deste livro.')
+      }
+
+      await trx('ledger_members').insert({
+        id: randomUUID(),
+        ledger_id: invite.ledger_id,
+        session_id: personalSessionId,
+        role: invite.role,
+      })
+
+      await trx('ledger_invites').where('id', invite.id).delete()
+
+      const joinedLedger = await trx('ledgers')
+        .where('id', invite.ledger_id)
+        .first()
+
+      return {
+        id: invite.ledger_id,
+        name: joinedLedger?.name,
+        role: invite.role,
+        personal: false,
+      }
+    })
+
+    return response.status(201).send({ ledger })
+  })
+
+  // Listagem dos membros de um livro
+  app.get(
+    '/:id/members',
+    {
+      preHandler: [ensureAuthenticated],
+    },
+    async (request) => {
+      const listMembersParamsSchema = z.object({
+        id: z.string().uuid(),
+      })
+
+      const { id } = listMembersParamsSchema.parse(request.params)
+
+      const { personalSessionId } = request
+
+      const membership = await findLedgerMembership(knex, id, personalSessionId)
+
+      if (!membership) {
+        throw new NotFoundError('Livro não encontrado.')
+      }
+
+      // O session_id dos membros não é enviado ao cliente (o de uma sessão anônima é o próprio cookie dela). Os membros cadastrados são identificados
+      // pelo e-mail
+      const members = await knex('ledger_members')
+        .leftJoin('users', 'users.session_id', 'ledger_members.session_id')
+        .where('ledger_members.ledger_id', id)
+        .orderByRaw(
+          "case when ledger_members.role = 'owner' then 0 else 1 end", // o dono aparece primeiro
+        )
+        .orderBy('ledger_members.created_at')
+        .select(
+          'ledger_members.id',
+          'ledger_members.role',
+          'ledger_members.session_id',
+          'users.email',
+          'ledger_members.created_at',
+        )
+
+      return {
+        members: members.map(({ session_id: sessionId, ...member }) => ({
+          ...member,
+          email: member.email ?? null,
+          current: sessionId === personalSessionId, // indica o membro que fez a requisição
+        })),
+      }
+    },
+  )
+
+  // Revogação do acesso de um membro. O dono pode remover qualquer outro membro, e os demais membros podem apenas sair do livro (remover a si mesmos)
+  app.delete(
+    '/:id/members/:memberId',
+    {
+      preHandler: [ensureAuthenticated],
+    },
+    async (request, response) => {
+      const removeMemberParamsSchema = z.object({
+        id: z.string().uuid(),
+        memberId: z.string().uuid(),
+      })
+
+      const { id, memberId } = removeMemberParamsSchema.parse(request.params)
+
+      const membership = await findLedgerMembership(
+        knex,
+        id,
+        request.personalSessionId,
+      )
+
+      if (!membership) {
+        throw new NotFoundError('Livro não encontrado.')
+      }
+
+      const member = await knex('ledger_members')
+        .where({ ledger_id: id, id: memberId })
+        .first()
+
+      if (!member) {
+        throw new NotFoundError('Membro não encontrado.')
+      }
+
+      if (member.role === 'owner') {
+        throw new ConflictError('O dono do livro não pode ser removido.')
+      }
+
+      if (membership.role !== 'owner' && member.id !== membership.id) {
+        throw new ForbiddenError('Apenas o dono do livro pode remover membros.')
+      }
+
+      await knex('ledger_members').where('id', member.id).delete()
+
+      return response.status(204).send()
+    },
+  )
+}
+
+/*
+Observações:
+- O cliente acessa os dados de um livro compartilhado enviando o cabeçalho Ledger-Id nas requisições das demais rotas (transações, contas, categorias...).
+A participação é conferida a cada requisição (src/middlewares/resolve-auth.ts), então a remoção de um membro vale imediatamente.
+- O token do convite funciona como uma senha: quem o tiver pode entrar no livro enquanto ele não for usado e não expirar.
+*/
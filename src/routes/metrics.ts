@@ -0,0 +1,11 @@
+import type { FastifyInstance } from 'fastify'
+import { metricsRegistry } from '../utils/metrics'
+
+// Métricas da aplicação no formato de texto do Prometheus. Registrada apenas quando METRICS_ENABLED é true (veja src/app.ts)
+export async function metricsRoutes(app: FastifyInstance) {
+  app.get('/metrics', { schema: { hide: true } }, async (request, response) => {
+    return response
+      .header('Content-Type', metricsRegistry.contentType)
+      .send(await metricsRegistry.metrics())
+  })
+}
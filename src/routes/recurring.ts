@@ -0,0 +1,290 @@
+import { randomUUID } from 'node:crypto'
+import type { FastifyInstance } from 'fastify'
+import { z } from 'zod'
+import { knex, toDatabaseDate } from '../database'
+import {
+  materializeRecurringTransaction,
+  toSchedule,
+} from '../jobs/recurring-transactions'
+import { ensureAuthenticated } from '../middlewares/ensure-authenticated'
+import { BadRequestError, NotFoundError } from '../utils/errors'
+import {
+  currencySchema,
+  DEFAULT_CURRENCY,
+  minorUnitsSchema,
+} from '../utils/money'
+import { listOccurrences, scheduleSchema } from '../utils/recurrence'
+import { ensureSessionId, omitSessionId } from '../utils/session'
+
+export async function recurringRoutes(app: FastifyInstance) {
+  // Criação de transações recorrentes (aluguel, salário, assinaturas...)
+  app.post('/', async (request, response) => {
+    const createRecurringBodySchema = z.object({
+      title: z.string(),
+      amount: minorUnitsSchema.positive(), // em unidades menores da moeda (centavos)
+      type: z.enum(['credit', 'debit']),
+      currency: currencySchema.default(DEFAULT_CURRENCY),
+      accountId: z.string().uuid().optional(), // sem accountId, as ocorrências são criadas na conta principal da sessão
+      categoryId: z.string().uuid().optional(),
+      startDate: z.coerce.date(), // data (e horário) da primeira ocorrência
+      endDate: z.coerce.date().optional(),
+      count: z.number().int().positive().optional(), // quantidade total de ocorrências
+      schedule: scheduleSchema,
+    })
+
+    const {
+      title,
+      amount,
+      type,
+      currency,
+      accountId,
+      categoryId,
+      startDate,
+      endDate,
+      count,
+      schedule,
+    } = createRecurringBodySchema.parse(request.body)
+
+    const sessionId = ensureSessionId(request, response)
+
+    if (accountId) {
+      const account = await knex('accounts')
+        .where({ session_id: sessionId, id: accountId })
+        .first()
+
+      if (!account) {
+        throw new BadRequestError('Conta não encontrada.')
+      }
+    }
+
+    if (categoryId) {
+      const category = await knex('categories')
+        .where({ session_id: sessionId, id: categoryId })
+        .first()
+
+      if (!category) {
+        throw new BadRequestError('Categoria não encontrada.')
+      }
+    }
+
+    const id = randomUUID()
+
+    // A data final e a quantidade de ocorrências informadas no corpo têm prioridade sobre as da RRULE (UNTIL e COUNT)
+    const endDateOrRuleEndDate = endDate ?? schedule.endDate
+
+    await knex('recurring_transactions').insert({
+      id,
+      session_id: sessionId,
+      title,
+      amount: type === 'credit' ? amount : amount * -1,
+      currency,
+      account_id: accountId ?? null,
+      category_id: categoryId ?? null,
+      start_date: toDatabaseDate(startDate),
+      frequency: schedule.frequency,
+      frequency_interval: schedule.interval,
+      weekdays: schedule.weekdays?.join(',') ?? null,
+      day_of_month: schedule.dayOfMonth,
+      rrule: schedule.rrule,
+      end_date: endDateOrRuleEndDate
+        ? toDatabaseDate(endDateOrRuleEndDate)
+        : null,
+      occurrence_count: count ?? schedule.count,
+    })
+
+    const recurring = await knex('recurring_transactions').where({ id }).first()
+
+    // As ocorrências com data no passado são criadas imediatamente, sem esperar a próxima execução do agendador
+    const created = recurring
+      ? await materializeRecurringTransaction(recurring, request.log)
+      : 0
+
+    return response
+      .status(201)
+      .send({ recurring: recurring && omitSessionId(recurring), created })
+  })
+
+  // Listagem das transações recorrentes
+  app.get(
+    '/',
+    {
+      preHandler: [ensureAuthenticated],
+    },
+    async (request) => {
+      const { sessionId } = request
+
+      const recurring = await knex('recurring_transactions')
+        .where('session_id', sessionId)
+        .orderBy('created_at')
+        .select()
+
+      return { recurring: recurring.map(omitSessionId) }
+    },
+  )
+
+  // Obter uma transação recorrente específica
+  app.get(
+    '/:id',
+    {
+      preHandler: [ensureAuthenticated],
+    },
+    async (request) => {
+      const getRecurringParamsSchema = z.object({
+        id: z.string().uuid(),
+      })
+
+      const { id } = getRecurringParamsSchema.parse(request.params)
+
+      const { sessionId } = request
+
+      const recurring = await knex('recurring_transactions')
+        .where({ session_id: sessionId, id })
+        .first()
+
+      if (!recurring) {
+        throw new NotFoundError('Transação recorrente não encontrada.')
+      }
+
+      return { recurring: omitSessionId(recurring) }
+    },
+  )
+
+  // Prévia das próximas ocorrências de uma transação recorrente
+  app.get(
+    '/:id/preview',
+    {
+      preHandler: [ensureAuthenticated],
+    },
+    async (request) => {
+      const previewRecurringParamsSchema = z.object({
+        id: z.string().uuid(),
+      })
+
+      const previewRecurringQuerySchema = z.object({
+        count: z.coerce.number().int().min(1).max(100).default(5),
+      })
+
+      const { id } = previewRecurringParamsSchema.parse(request.params)
+      const { count } = previewRecurringQuerySchema.parse(request.query)
+
+      const { sessionId } = request
+
+      const recurring = await knex('recurring_transactions')
+        .where({ session_id: sessionId, id })
+        .first()
+
+      if (!recurring) {
+        throw new NotFoundError('Transação recorrente não encontrada.')
+      }
+
+      const occurrences = listOccurrences(toSchedule(recurring), {
+        after: new Date(),
+        limit: count,
+      })
+
+      return { occurrences }
+    },
+  )
+
+  // Edição do modelo e do término de uma transação recorrente. As ocorrências já criadas não são alteradas
+  app.patch(
+    '/:id',
+    {
+      preHandler: [ensureAuthenticated],
+    },
+    async (request) => {
+      const updateRecurringParamsSchema = z.object({
+        id: z.string().uuid(),
+      })
+
+      const updateRecurringBodySchema = z
+        .object({
+          title: z.string(),
+          amount: minorUnitsSchema.positive(),
+          type: z.enum(['credit', 'debit']),
+          currency: currencySchema,
+          categoryId: z.string().uuid().nullable(),
+          endDate: z.coerce.date().nullable(),
+          count: z.number().int().positive().nullable(),
+        })
+        .partial()
+        .refine((body) => Object.keys(body).length > 0, {
+          message: 'Informe pelo menos um campo para ser alterado.',
+        })
+
+      const { id } = updateRecurringParamsSchema.parse(request.params)
+      const body = updateRecurringBodySchema.parse(request.body)
+
+      const { sessionId } = request
+
+      const before = await knex('recurring_transactions')
+        .where({ session_id: sessionId, id })
+        .first()
+
+      if (!before) {
+        throw new NotFoundError('Transação recorrente não encontrada.')
+      }
+
+      if (body.categoryId) {
+        const category = await knex('categories')
+          .where({ session_id: sessionId, id: body.categoryId })
+          .first()
+
+        if (!category) {
+          throw new BadRequestError('Categoria não encontrada.')
+        }
+      }
+
+      // O tipo e o valor absoluto que não forem informados são mantidos a partir do registro atual
+      const type = body.type ?? (before.amount < 0 ? 'debit' : 'credit')
+      const amount = Math.abs(body.amount ?? before.amount)
+
+      await knex('recurring_transactions')
+        .where({ id })
+        .update({
+          title: body.title,
+          amount: type === 'credit' ? amount : amount * -1,
+          currency: body.currency,
+          category_id: body.categoryId,
+          end_date:
+            body.endDate === undefined
+              ? undefined
+              : body.endDate && toDatabaseDate(body.endDate),
+          occurrence_count: body.count,
+        }) // o knex ignora as propriedades com valor undefined
+
+      const recurring = await knex('recurring_transactions')
+        .where({ id })
+        .first()
+
+      return { recurring: recurring && omitSessionId(recurring) }
+    },
+  )
+
+  // Exclusão de uma transação recorrente. As ocorrências já criadas continuam existindo
+  app.delete(
+    '/:id',
+    {
+      preHandler: [ensureAuthenticated],
+    },
+    async (request, response) => {
+      const deleteRecurringParamsSchema = z.object({
+        id: z.string().uuid(),
+      })
+
+      const { id } = deleteRecurringParamsSchema.parse(request.params)
+
+      const { sessionId } = request
+
+      const deletedRows = await knex('recurring_transactions')
+        .where({ session_id: sessionId, id })
+        .delete()
+
+      if (deletedRows === 0) {
+        throw new NotFoundError('Transação recorrente não encontrada.')
+      }
+
+      return response.status(204).send()
+    },
+  )
+}
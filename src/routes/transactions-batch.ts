@@ -0,0 +1,225 @@
+import { randomUUID } from 'node:crypto'
+import type { FastifyInstance } from 'fastify'
+import { z } from 'zod'
+import { knex } from '../database'
+import { env } from '../env'
+import { getDefaultAccountId } from '../utils/accounts'
+import { BadRequestError, ErrorIssue } from '../utils/errors'
+import { ensureSessionId, omitSessionId } from '../utils/session'
+import { publishTransactionsEvents } from '../utils/transaction-events'
+import { recordCreatedTransactionsHistory } from '../utils/transaction-history'
+import {
+  createTransactionBodySchema,
+  CreateTransactionBody,
+} from '../utils/transaction-schemas'
+import { attachTags, normalizeTags } from '../utils/transaction-tags'
+
+const BATCH_CHUNK_SIZE = 100 // quantidade de linhas gravadas por comando insert
+
+// Converte um item validado nas colunas da tabela transactions (a sessão e a conta são preenchidas pela rota)
+function toTransactionRow({
+  title,
+  amount,
+  type,
+  currency,
+  categoryId,
+}: CreateTransactionBody) {
+  return {
+    id: randomUUID(),
+    title,
+    amount: type === 'credit' ? amount : amount * -1,
+    currency,
+    category_id: categoryId ?? null,
+  }
+}
+
+export async function transactionsBatchRoutes(app: FastifyInstance) {
+  // Criação de várias transações em uma única requisição (ex.: sincronização de dados registrados offline)
+  app.post('/batch', async (request, response) => {
+    const createTransactionsBatchBodySchema = z.object({
+      // atomic: se algum item for inválido, nenhuma transação é criada. partial: os itens válidos são criados e os inválidos são devolvidos com os erros
+      mode: z.enum(['atomic', 'partial']).default('atomic'),
+      // Cada item é validado separadamente (com o mesmo esquema da criação individual), para que os erros sejam apontados por item
+      transactions: z
+        .array(z.unknown())
+        .min(1)
+        .max(env.TRANSACTIONS_BATCH_LIMIT),
+    })
+
+    const { mode, transactions: items } =
+      createTransactionsBatchBodySchema.parse(request.body)
+
+    const sessionId = ensureSessionId(request, response)
+
+    const parsedItems = items.map((item) =>
+      createTransactionBodySchema.safeParse(item),
+    )
+
+    const validItems = parsedItems.flatMap((result) =>
+      result.success ? [result.data] : [],
+    )
+
+    // As categorias e contas informadas precisam pertencer à mesma sessão. Buscamos todas de uma vez, em vez de uma consulta por item
+    const categoryIds = [
+      ...new Set(validItems.flatMap((item) => item.categoryId ?? [])),
+    ]
+    const accountIds = [
+      ...new Set(validItems.flatMap((item) => item.accountId ?? [])),
+    ]
+
+    const existingCategoryIds = new Set(
+      categoryIds.length > 0
+        ? await knex('categories')
+            .where('session_id', sessionId)
+            .whereIn('id', categoryIds)
+            .pluck('id')
+        : [],
+    )
+    const existingAccountIds = new Set(
+      accountIds.length > 0
+        ? await knex('accounts')
+            .where('session_id', sessionId)
+            .whereIn('id', accountIds)
+            .pluck('id')
+        : [],
+    )
+
+    // Separa os itens que serão criados dos itens com erro, guardando a posição (index) de cada um no lote enviado
+    const failed: {
+      index: number
+      status: 'failed'
+      errors: ErrorIssue[]
+    }[] = []
+    const toInsert: { index: number; item: CreateTransactionBody }[] = []
+
+    parsedItems.forEach((result, index) => {
+      if (!result.success) {
+        failed.push({
+          index,
+          status: 'failed',
+          errors: result.error.issues.map((issue) => ({
+            field: issue.path.join('.'),
+            message: issue.message,
+          })),
+        })
+
+        return
+      }
+
+      const { categoryId, accountId } = result.data
+      const errors: ErrorIssue[] = []
+
+      if (categoryId && !existingCategoryIds.has(categoryId)) {
+        errors.push({
+          field: 'categoryId',
+          message: 'Categoria não encontrada.',
+        })
+      }
+
+      if (accountId && !existingAccountIds.has(accountId)) {
+        errors.push({ field: 'accountId', message: 'Conta não encontrada.' })
+      }
+
+      if (errors.length > 0) {
+        failed.push({ index, status: 'failed', errors })
+      } else {
+        toInsert.push({ index, item: result.data })
+      }
+    })
+
+    // No modo atômico, um único item inválido impede a criação de todos. Os erros são apontados com a posição do item (ex.: transactions.1.type)
+    if (mode === 'atomic' && failed.length > 0) {
+      throw new BadRequestError(
+        'Nenhuma transação do lote foi criada.',
+        failed.flatMap(({ index, errors }) =>
+          errors.map(({ field, message }) => ({
+            field: `transactions.${index}.${field}`,
+            message,
+          })),
+        ),
+      )
+    }
+
+    // No modo parcial, mesmo sem nenhum item válido, a resposta traz o resultado de cada item. Como nada foi criado, o status é 200
+    if (toInsert.length === 0) {
+      return response.status(200).send({
+        mode,
+        created: 0,
+        failed: failed.length,
+        results: failed,
+      })
+    }
+
+    // Todas as linhas são gravadas em uma única transação do banco de dados, com inserções em lotes. Se qualquer inserção falhar, o knex desfaz todas
+    const created = await knex.transaction(async (trx) => {
+      const defaultAccountId = toInsert.some(({ item }) => !item.accountId)
+        ? await getDefaultAccountId(trx, sessionId)
+        : null
+
+      const rows = toInsert.map(({ item }) => ({
+        ...toTransactionRow(item),
+        session_id: sessionId,
+        account_id: item.accountId ?? defaultAccountId,
+      }))
+
+      await trx.batchInsert('transactions', rows, BATCH_CHUNK_SIZE)
+
+      await trx.batchInsert(
+        'transaction_tags',
+        toInsert.flatMap(({ item }, position) =>
+          normalizeTags(item.tags).map((tag) => ({
+            transaction_id: rows[position].id,
+            tag,
+          })),
+        ),
+        BATCH_CHUNK_SIZE,
+      )
+
+      const inserted = await trx('transactions')
+        .whereIn(
+          'id',
+          rows.map(({ id }) => id),
+        )
+        .select()
+
+      await recordCreatedTransactionsHistory(trx, sessionId, inserted)
+
+      // Devolve as transações na mesma ordem dos itens enviados
+      const transactions = await attachTags(trx, inserted)
+
+      return rows.map(({ id }, position) => {
+        const transaction = transactions.find(
+          (transaction) => transaction.id === id,
+        )
+
+        return {
+          index: toInsert[position].index,
+          status: 'created' as const,
+          transaction: transaction && omitSessionId(transaction),
+        }
+      })
+    })
+
+    await publishTransactionsEvents(
+      knex,
+      request.log,
+      sessionId,
+      created.flatMap(({ transaction }) => transaction ?? []),
+    )
+
+    return response.status(201).send({
+      mode,
+      created: created.length,
+      failed: failed.length,
+      results: [...created, ...failed].sort((a, b) => a.index - b.index),
+    })
+  })
+}
+
+/*
+Observações:
+- O método batchInsert do knex divide as linhas em lotes (BATCH_CHUNK_SIZE) e grava cada lote com um único comando insert, dentro da transação do banco de
+dados recebida. Assim, um lote com centenas de transações usa poucos comandos, em vez de um insert por linha.
+- No modo partial, os itens com erro não impedem a gravação dos demais. Se nenhum item puder ser criado, a resposta tem o status 200 (e não 201), com
+os erros de todos os itens em results.
+*/
@@ -0,0 +1,213 @@
+import { Readable } from 'node:stream'
+import type { FastifyInstance } from 'fastify'
+import type { Knex } from 'knex'
+import type { Tables } from 'knex/types/tables'
+import { z } from 'zod'
+import { knex, parseDatabaseDate } from '../database'
+import { env } from '../env'
+import { ensureAuthenticated } from '../middlewares/ensure-authenticated'
+import { applyCursor, selectCursorValue, type Cursor } from '../utils/cursor'
+import { toCsvLine } from '../utils/csv'
+import { DEFAULT_CURRENCY, formatMinorUnits } from '../utils/money'
+import { ofxFooter, ofxHeader, ofxTransaction } from '../utils/ofx'
+import {
+  applyTransactionsFilters,
+  transactionsFiltersSchema,
+  transactionsSortColumns,
+  transactionsSortSchema,
+} from '../utils/transactions-filters'
+
+type ExportedTransaction = Pick<
+  Tables['transactions'],
+  'id' | 'title' | 'amount' | 'currency' | 'created_at' | 'external_id'
+>
+
+type TransactionsSortColumn =
+  (typeof transactionsSortColumns)[keyof typeof transactionsSortColumns]
+
+// Quantidade de linhas lidas do banco de dados por consulta quando as transações são lidas em páginas (SQLite)
+const EXPORT_PAGE_SIZE = 500
+
+// Lê as transações da consulta (já ordenada pela coluna informada e pelo id) em páginas, continuando cada página a partir da última linha da anterior
+// (keyset pagination, a mesma da listagem). Apenas uma página fica na memória de cada vez
+async function* readInPages(
+  query: Knex.QueryBuilder,
+  sortColumn: TransactionsSortColumn,
+  order: 'asc' | 'desc',
+) {
+  let cursor: Cursor | undefined
+
+  while (true) {
+    const pageQuery = query
+      .clone()
+      .select(selectCursorValue(knex, sortColumn))
+      .limit(EXPORT_PAGE_SIZE)
+
+    if (cursor) {
+      applyCursor(pageQuery, sortColumn, order, cursor)
+    }
+
+    const rows: (ExportedTransaction & { cursor_value: string | number })[] =
+      await pageQuery
+
+    yield* rows
+
+    if (rows.length < EXPORT_PAGE_SIZE) {
+      return
+    }
+
+    const lastRow = rows[rows.length - 1]
+
+    cursor = { value: lastRow.cursor_value, id: lastRow.id }
+  }
+}
+
+// Cada formato é um gerador assíncrono que recebe as transações (lidas do banco de dados uma a uma) e produz o arquivo aos poucos.
+// Os nomes das colunas/propriedades são os mesmos esperados pela importação, assim o arquivo exportado pode ser importado novamente.
+// Como nos extratos bancários, os valores são escritos em unidades maiores da moeda, com as suas casas decimais (ex.: -50.00)
+const exportFormats = {
+  csv: {
+    contentType: 'text/csv; charset=utf-8',
+    extension: 'csv',
+    async *write(transactions: AsyncIterable<ExportedTransaction>) {
+      yield toCsvLine([
+        'id',
+        'date',
+        'title',
+        'amount',
+        'currency',
+        'type',
+        'external_id',
+      ])
+
+      for await (const transaction of transactions) {
+        const currency = transaction.currency ?? DEFAULT_CURRENCY
+
+        yield toCsvLine([
+          transaction.id,
+          parseDatabaseDate(transaction.created_at).toISOString(),
+          transaction.title,
+          formatMinorUnits(transaction.amount, currency),
+          currency,
+          transaction.amount < 0 ? 'debit' : 'credit',
+          transaction.external_id ?? null,
+        ])
+      }
+    },
+  },
+  jsonl: {
+    contentType: 'application/x-ndjson; charset=utf-8',
+    extension: 'jsonl',
+    async *write(transactions: AsyncIterable<ExportedTransaction>) {
+      for await (const transaction of transactions) {
+        const currency = transaction.currency ?? DEFAULT_CURRENCY
+
+        // O valor vai como número (e não como texto) para que o arquivo possa ser importado novamente
+        yield `${JSON.stringify({
+          id: transaction.id,
+          date: parseDatabaseDate(transaction.created_at).toISOString(),
+          title: transaction.title,
+          amount: Number(formatMinorUnits(transaction.amount, currency)),
+          currency,
+          type: transaction.amount < 0 ? 'debit' : 'credit',
+          externalId: transaction.external_id ?? null,
+        })}\n`
+      }
+    },
+  },
+  ofx: {
+    contentType: 'application/x-ofx',
+    extension: 'ofx',
+    // Um extrato OFX tem uma única moeda (CURDEF), por isso a rota exporta para OFX apenas as transações da moeda informada
+    async *write(
+      transactions: AsyncIterable<ExportedTransaction>,
+      currency: string,
+    ) {
+      yield ofxHeader(currency)
+
+      for await (const transaction of transactions) {
+        // Transações criadas na aplicação não têm FITID, então usamos o próprio id
+        yield ofxTransaction({
+          fitid: transaction.external_id ?? transaction.id,
+          date: parseDatabaseDate(transaction.created_at),
+          amount: formatMinorUnits(transaction.amount, currency),
+          title: transaction.title,
+        })
+      }
+
+      yield ofxFooter()
+    },
+  },
+}
+
+export async function transactionsExportRoutes(app: FastifyInstance) {
+  // Exportação das transações, com os mesmos filtros e ordenação da listagem
+  app.get(
+    '/export',
+    {
+      preHandler: [ensureAuthenticated],
+    },
+    async (request, response) => {
+      const exportTransactionsQuerySchema = transactionsFiltersSchema
+        .merge(transactionsSortSchema)
+        .extend({
+          format: z.enum(['csv', 'jsonl', 'ofx']).default('csv'),
+        })
+
+      const { format, sortBy, order, ...filters } =
+        exportTransactionsQuerySchema.parse(request.query)
+
+      // No OFX, sem o filtro de moeda, são exportadas as transações na moeda padrão
+      const currency = filters.currency ?? DEFAULT_CURRENCY
+
+      if (format === 'ofx') {
+        filters.currency = currency
+      }
+
+      const { sessionId } = request
+
+      const sortColumn = transactionsSortColumns[sortBy]
+
+      const query = knex('transactions')
+        .where('session_id', sessionId)
+        .orderBy([
+          { column: sortColumn, order },
+          { column: 'id', order },
+        ])
+        .select(
+          'id',
+          'title',
+          'amount',
+          'currency',
+          'created_at',
+          'external_id',
+        )
+
+      applyTransactionsFilters(query, filters)
+
+      const { contentType, extension, write } = exportFormats[format]
+
+      const filename = `transactions-${new Date()
+        .toISOString()
+        .slice(0, 10)}.${extension}`
+
+      // No PostgreSQL, o método stream do knex (com o pacote pg-query-stream) devolve as linhas conforme elas são lidas do banco de dados, usando um cursor.
+      // No SQLite, o stream do knex executa a consulta inteira antes de devolver a primeira linha, então as transações são lidas em páginas
+      const transactions =
+        env.DATABASE_CLIENT === 'pg'
+          ? query.stream()
+          : readInPages(query, sortColumn, order)
+
+      return response
+        .header('Content-Type', contentType)
+        .header('Content-Disposition', `attachment; filename="${filename}"`)
+        .send(Readable.from(write(transactions, currency)))
+    },
+  )
+}
+
+/*
+Observações:
+- Readable.from transforma o gerador assíncrono em um stream do Node. O Fastify envia o stream ao cliente conforme os dados são produzidos, e o stream do 
+knex (ou a leitura em páginas) só lê as próximas linhas do banco de dados quando o cliente consegue receber mais dados (backpressure).
+*/
@@ -0,0 +1,252 @@
+import { randomUUID } from 'node:crypto'
+import type { FastifyInstance } from 'fastify'
+import { z } from 'zod'
+import { chunk, knex, parseDatabaseDate, toDatabaseDate } from '../database'
+import { getDefaultAccountId } from '../utils/accounts'
+import { BadRequestError } from '../utils/errors'
+import { currencySchema, DEFAULT_CURRENCY } from '../utils/money'
+import { ensureSessionId } from '../utils/session'
+import {
+  csvMappingSchema,
+  parseStatement,
+  statementFormats,
+} from '../utils/statement-import'
+import { publishTransactionsEvents } from '../utils/transaction-events'
+import { recordCreatedTransactionsHistory } from '../utils/transaction-history'
+
+// Chave usada para identificar transações duplicadas: mesma data (com precisão de segundos, como no SQLite), mesmo valor, mesma moeda e mesmo título
+function duplicateKey(
+  date: Date,
+  amount: number,
+  currency: string,
+  title: string,
+) {
+  return `${Math.floor(date.getTime() / 1000)}|${amount}|${currency}|${title}`
+}
+
+export async function transactionsImportRoutes(app: FastifyInstance) {
+  // Importação de extratos bancários (CSV, OFX ou JSON Lines)
+  app.post('/import', async (request, response) => {
+    const importQuerySchema = z.object({
+      dryRun: z
+        .enum(['true', 'false'])
+        .default('false')
+        .transform((dryRun) => dryRun === 'true'), // com dryRun=true, o extrato é apenas lido e validado, nada é gravado
+    })
+
+    const { dryRun } = importQuerySchema.parse(request.query)
+
+    if (!request.isMultipart()) {
+      throw new BadRequestError('Envie o extrato como multipart/form-data.')
+    }
+
+    // Percorre as partes do formulário: o arquivo do extrato e os campos de configuração da importação
+    let file: { filename: string; content: string } | undefined
+    const fields: Record<string, unknown> = {}
+
+    for await (const part of request.parts()) {
+      if (part.type === 'file') {
+        file = {
+          filename: part.filename,
+          content: (await part.toBuffer()).toString('utf-8'),
+        }
+      } else {
+        fields[part.fieldname] = part.value
+      }
+    }
+
+    if (!file) {
+      throw new BadRequestError('O arquivo do extrato não foi enviado.')
+    }
+
+    const importFieldsSchema = z.object({
+      format: z.enum(statementFormats).optional(), // sem format, o formato é identificado pela extensão do arquivo
+      accountId: z.string().uuid().optional(),
+      currency: currencySchema.default(DEFAULT_CURRENCY), // moeda das linhas do extrato que não informam a sua própria moeda
+      // O mapeamento de colunas chega como texto (JSON) no formulário
+      mapping: z
+        .string()
+        .transform((mapping, ctx) => {
+          try {
+            return JSON.parse(mapping)
+          } catch {
+            ctx.addIssue({
+              code: z.ZodIssueCode.custom,
+              message: 'O mapeamento deve ser um JSON válido.',
+            })
+
+            return z.NEVER
+          }
+        })
+        .optional()
+        .pipe(csvMappingSchema),
+    })
+
+    const { accountId, currency, mapping, ...importFields } =
+      importFieldsSchema.parse(fields)
+
+    const format =
+      importFields.format ??
+      (/\.(ofx|qfx)$/i.test(file.filename)
+        ? 'ofx'
+        : /\.(jsonl|ndjson)$/i.test(file.filename)
+          ? 'jsonl'
+          : 'csv')
+
+    // Assim como na criação de transações, um cliente sem sessão recebe uma nova
+    const sessionId = ensureSessionId(request, response)
+
+    if (accountId) {
+      const account = await knex('accounts')
+        .where({ session_id: sessionId, id: accountId })
+        .first()
+
+      if (!account) {
+        throw new BadRequestError('Conta não encontrada.')
+      }
+    }
+
+    // Um erro no formato do arquivo como um todo lança StatementFormatError (status 400)
+    const parsedRows = parseStatement(file.content, format, mapping, currency)
+
+    const validRows = parsedRows.flatMap((row) => (row.valid ? [row] : []))
+
+    // Busca as transações existentes que podem ser duplicatas: as do mesmo período do extrato e as com o mesmo identificador externo (FITID)
+    // O período é calculado com um laço: Math.min(...dates) estoura a pilha de chamadas com extratos muito grandes
+    let firstDate = Infinity
+    let lastDate = -Infinity
+
+    for (const row of validRows) {
+      firstDate = Math.min(firstDate, row.date.getTime())
+      lastDate = Math.max(lastDate, row.date.getTime())
+    }
+
+    const externalIds = validRows.flatMap((row) =>
+      row.externalId ? [row.externalId] : [],
+    )
+
+    const existingTransactionsQuery = knex('transactions')
+      .where('session_id', sessionId)
+      .whereNull('deleted_at')
+      .select('created_at', 'amount', 'currency', 'title', 'external_id')
+
+    const existingTransactions =
+      validRows.length > 0
+        ? await existingTransactionsQuery
+            .clone()
+            .whereBetween('created_at', [
+              toDatabaseDate(new Date(firstDate)),
+              toDatabaseDate(new Date(lastDate)),
+            ])
+        : []
+
+    // Os identificadores externos são consultados em partes, por causa do limite de parâmetros do banco de dados
+    for (const externalIdsChunk of chunk(externalIds)) {
+      existingTransactions.push(
+        ...(await existingTransactionsQuery
+          .clone()
+          .whereIn('external_id', externalIdsChunk)),
+      )
+    }
+
+    const existingKeys = new Set(
+      existingTransactions.map((transaction) =>
+        duplicateKey(
+          parseDatabaseDate(transaction.created_at),
+          transaction.amount,
+          transaction.currency ?? DEFAULT_CURRENCY,
+          transaction.title,
+        ),
+      ),
+    )
+    const existingExternalIds = new Set(
+      existingTransactions.map((transaction) => transaction.external_id),
+    )
+
+    // Classifica cada linha. As duplicatas dentro do próprio arquivo também são detectadas, pois as chaves das linhas aceitas entram nos conjuntos
+    const rows = parsedRows.map((row) => {
+      if (!row.valid) {
+        return {
+          line: row.line,
+          status: 'rejected' as const,
+          errors: row.errors,
+        }
+      }
+
+      const { line, date, title, amount, currency, externalId } = row
+      const key = duplicateKey(date, amount, currency, title)
+
+      const isDuplicate =
+        existingKeys.has(key) ||
+        (externalId !== null && existingExternalIds.has(externalId))
+
+      existingKeys.add(key)
+      existingExternalIds.add(externalId)
+
+      return {
+        line,
+        status: isDuplicate ? ('skipped' as const) : ('inserted' as const),
+        transaction: { date, title, amount, currency, externalId },
+      }
+    })
+
+    const rowsToInsert = rows.flatMap((row) =>
+      row.status === 'inserted' ? [row.transaction] : [],
+    )
+
+    if (!dryRun && rowsToInsert.length > 0) {
+      // Todas as transações do extrato são gravadas na mesma transação do banco de dados: ou todas são importadas, ou nenhuma
+      const inserted = await knex.transaction(async (trx) => {
+        const defaultAccountId =
+          accountId ?? (await getDefaultAccountId(trx, sessionId))
+
+        const transactions = rowsToInsert.map((row) => ({
+          id: randomUUID(),
+          title: row.title,
+          amount: row.amount,
+          currency: row.currency,
+          session_id: sessionId,
+          account_id: defaultAccountId,
+          external_id: row.externalId,
+          created_at: toDatabaseDate(row.date),
+        }))
+
+        await trx.batchInsert('transactions', transactions, 100)
+
+        const inserted = []
+
+        for (const transactionsChunk of chunk(transactions)) {
+          inserted.push(
+            ...(await trx('transactions')
+              .whereIn(
+                'id',
+                transactionsChunk.map((transaction) => transaction.id),
+              )
+              .select()),
+          )
+        }
+
+        await recordCreatedTransactionsHistory(trx, sessionId, inserted)
+
+        return inserted
+      })
+
+      await publishTransactionsEvents(knex, request.log, sessionId, inserted)
+    }
+
+    return response.status(dryRun ? 200 : 201).send({
+      dryRun,
+      inserted: rowsToInsert.length,
+      skipped: rows.filter((row) => row.status === 'skipped').length,
+      rejected: rows.filter((row) => row.status === 'rejected').length,
+      rows,
+    })
+  })
+}
+
+/*
+Observações:
+- Com dryRun=true, a resposta tem o mesmo formato da importação real: inserted indica quantas transações seriam inseridas.
+- As partes de um formulário multipart chegam na ordem em que foram enviadas. Por isso, percorremos todas elas com request.parts() em vez de usar 
+request.file(), que só enxerga os campos enviados antes do arquivo.
+*/
@@ -1,70 +1,302 @@
 import { randomUUID } from 'node:crypto'
 import type { FastifyInstance } from 'fastify'
+import type { ZodTypeProvider } from 'fastify-type-provider-zod'
 import { z } from 'zod'
-import { knex } from '../database'
-import { checkSessionIdExists } from '../middlewares/check-session-id-exists'
+import { knex, toDatabaseDate } from '../database'
+import { ensureAuthenticated } from '../middlewares/ensure-authenticated'
+import { REQUEST_ID_HEADER } from '../middlewares/request-id'
+import {
+  applyCursor,
+  decodeCursor,
+  encodeCursor,
+  selectCursorValue,
+} from '../utils/cursor'
+import { getAccountsWithBalance, getDefaultAccountId } from '../utils/accounts'
+import { getBudgetWarnings } from '../utils/budgets'
+import {
+  BadRequestError,
+  ConflictError,
+  errorResponseSchema,
+  NotFoundError,
+} from '../utils/errors'
+import {
+  findIdempotencyKey,
+  hashRequestBody,
+  idempotencyKeySchema,
+  replayStoredResponse,
+  saveIdempotencyKey,
+} from '../utils/idempotency'
+import {
+  currencySchema,
+  DEFAULT_CURRENCY,
+  minorUnitsSchema,
+} from '../utils/money'
+import { createCurrencyConverter } from '../utils/exchange-rates'
+import { sessionSecurity } from '../utils/openapi'
+import { ensureSessionId, omitSessionId } from '../utils/session'
+import { publishTransactionsEvents } from '../utils/transaction-events'
+import { eventBus, type BusEvent } from '../utils/event-bus'
+import {
+  formatServerSentEvent,
+  HEARTBEAT_INTERVAL,
+  type ServerSentEvent,
+} from '../utils/server-sent-events'
+import {
+  accountWithBalanceSchema,
+  budgetWarningSchema,
+  createTransactionBodySchema,
+  databaseDateSchema,
+  transactionSchema,
+  transactionWithTagsSchema,
+} from '../utils/transaction-schemas'
+import { recordTransactionHistory } from '../utils/transaction-history'
+import { attachTags, replaceTransactionTags } from '../utils/transaction-tags'
+import {
+  buildTimeline,
+  parseTimezoneOffset,
+  periodExpression,
+  type TimelinePeriodTotals,
+} from '../utils/timeline'
+import {
+  applyTransactionsFilters,
+  transactionsFiltersSchema,
+  transactionsSortColumns,
+  transactionsSortSchema,
+} from '../utils/transactions-filters'
+import { getTransactionsSummary } from '../utils/transactions-summary'
+
+// Quantidade máxima de dias que pode ser consultada na série temporal, conforme o período escolhido
+const maxTimelineDays = {
+  day: 366,
+  week: 366 * 5,
+  month: 366 * 20,
+}
 
 // Todo plugin do Fastify precisa ser uma função assíncrona, por isso transactionsRoutes é assíncrona
-export async function transactionsRoutes(app: FastifyInstance) {
-  // O hook passado para o método addHook será executado assim que qualquer uma das rotas pertencentes ao contexto do plugin transactionsRoutes for acessada
-  // Se quisermos que este hook seja executado assim que qualquer rota da aplicação for acessada, então colocamos o código abaixo em src/server.ts (antes dos plugins de rotas)
-  app.addHook('preHandler', async (request, response) => {
-    console.log(`[${request.method} ${request.url}]`)
+export async function transactionsRoutes(instance: FastifyInstance) {
+  // Com o ZodTypeProvider, os tipos de request.body, request.query e request.params são inferidos dos esquemas Zod informados nas opções de cada rota
+  const app = instance.withTypeProvider<ZodTypeProvider>()
+
+  // Esquema Zod do parâmetro id, usado pelas rotas de uma transação específica
+  const transactionParamsSchema = z.object({
+    id: z.string().uuid(),
   })
 
   // Criação de transações
-  app.post('/', async (request, response) => {
-    // Esquema Zod que define as regras para o corpo da requisição
-    const createTransactionBodySchema = z.object({
-      title: z.string(),
-      amount: z.number(),
-      type: z.enum(['credit', 'debit']),
-    })
+  app.post(
+    '/',
+    {
+      // Os esquemas Zod de schema são usados pelo Fastify para validar a requisição e serializar a resposta, e pelo @fastify/swagger para montar a documentação
+      schema: {
+        summary: 'Cria uma transação',
+        tags: ['transactions'],
+        security: [{}, ...sessionSecurity], // sem cookie, uma nova sessão anônima é criada
+        // Com o cabeçalho Idempotency-Key, uma repetição da mesma requisição (ex.: após uma falha de rede) devolve a resposta original em vez de criar
+        // outra transação. O passthrough mantém os demais cabeçalhos da requisição
+        headers: z
+          .object({ 'idempotency-key': idempotencyKeySchema })
+          .passthrough(),
+        body: createTransactionBodySchema,
+        response: {
+          201: z.object({
+            transaction: transactionWithTagsSchema,
+            warnings: z.array(budgetWarningSchema),
+          }),
+          400: errorResponseSchema,
+          422: errorResponseSchema,
+        },
+      },
+    },
+    async (request, response) => {
+      // O corpo já chega convertido e validado conforme o esquema definido (createTransactionBodySchema)
+      const { title, amount, type, currency, categoryId, tags, accountId } =
+        request.body
 
-    // A função parse realiza tanto a conversão quanto a validação dos dados de entrada (request.body) conforme o esquema definido (createTransactionBodySchema)
-    const { title, amount, type } = createTransactionBodySchema.parse(
-      request.body,
-    )
+      const idempotencyKey = request.headers['idempotency-key']
+      const requestHash = hashRequestBody(request.body)
 
-    // Cookies
-    let sessionId = request.cookies.sessionId
+      // Cookies
+      const sessionId = ensureSessionId(request, response)
 
-    if (!sessionId) {
-      sessionId = randomUUID()
+      if (idempotencyKey) {
+        const stored = await findIdempotencyKey(knex, sessionId, idempotencyKey)
 
-      response.setCookie('sessionId', sessionId, {
-        path: '/', // os cookies podem ser categorizados de acordo com as rotas da aplicação. No caso, qualquer rota da aplicação poderá acessar esse cookie
-        maxAge: 60 * 60 * 24 * 7, // o cookie irá expirar em 7 dias
-      })
-    }
-
-    // Insere um novo registro na tabela transactions
-    await knex('transactions').insert({
-      id: randomUUID(),
-      title,
-      amount: type === 'credit' ? amount : amount * -1,
-      session_id: sessionId,
-    })
+        if (stored) {
+          return replayStoredResponse(response, stored, requestHash)
+        }
+      }
 
-    return response.status(201).send() // o status HTTP 201 é utilizado como resposta de sucesso, indica que a requisição foi bem sucedida e que um novo recurso foi criado
-  })
+      // A categoria informada precisa pertencer à mesma sessão
+      if (categoryId) {
+        const category = await knex('categories')
+          .where({ session_id: sessionId, id: categoryId })
+          .first()
+
+        if (!category) {
+          throw new BadRequestError('Categoria não encontrada.')
+        }
+      }
+
+      // A conta informada também precisa pertencer à mesma sessão
+      if (accountId) {
+        const account = await knex('accounts')
+          .where({ session_id: sessionId, id: accountId })
+          .first()
+
+        if (!account) {
+          throw new BadRequestError('Conta não encontrada.')
+        }
+      }
+
+      const id = randomUUID()
+
+      // Insere um novo registro na tabela transactions e registra a criação no histórico (ambos na mesma transação do banco de dados).
+      // A chave de idempotência também é gravada nesta transação, então ou ficam gravadas a transação e a resposta, ou nenhuma das duas
+      let body
+
+      try {
+        body = await knex.transaction(async (trx) => {
+          await trx('transactions').insert({
+            id,
+            title,
+            amount: type === 'credit' ? amount : amount * -1,
+            currency,
+            session_id: sessionId,
+            category_id: categoryId ?? null,
+            account_id:
+              accountId ?? (await getDefaultAccountId(trx, sessionId)),
+          })
+
+          await replaceTransactionTags(trx, id, tags)
+
+          const row = await trx('transactions').where({ id }).first()
+
+          await recordTransactionHistory(trx, {
+            sessionId,
+            action: 'created',
+            after: row,
+          })
+
+          const [transaction] = row ? await attachTags(trx, [row]) : []
+
+          // Avisos dos orçamentos que ficaram acima do limite com esta transação. Os avisos não impedem a criação da transação
+          const warnings = await getBudgetWarnings(trx, id)
+
+          if (idempotencyKey) {
+            await saveIdempotencyKey(trx, {
+              sessionId,
+              key: idempotencyKey,
+              requestHash,
+              statusCode: 201,
+              body: { transaction, warnings },
+            })
+          }
+
+          return { transaction, warnings }
+        })
+      } catch (error) {
+        // Duas requisições simultâneas com a mesma chave: a gravação da segunda falha (chave primária duplicada) e tudo o que ela gravou é desfeito.
+        // Nesse caso, devolvemos a resposta da requisição que terminou primeiro
+        const stored =
+          idempotencyKey &&
+          (await findIdempotencyKey(knex, sessionId, idempotencyKey))
+
+        if (!stored) {
+          throw error
+        }
+
+        return replayStoredResponse(response, stored, requestHash)
+      }
+
+      // Avisa os clientes conectados em GET /transactions/stream (as repetições com a mesma chave de idempotência não geram eventos)
+      await publishTransactionsEvents(knex, request.log, sessionId, [
+        body.transaction,
+      ])
+
+      return response.status(201).send(body) // o status HTTP 201 é utilizado como resposta de sucesso, indica que a requisição foi bem sucedida e que um novo recurso foi criado
+    },
+  )
+
+  // Esquema Zod que define as regras para os parâmetros de consulta (query string) da listagem das transações
+  const listTransactionsQuerySchema = transactionsFiltersSchema
+    .merge(transactionsSortSchema)
+    .extend({
+      limit: z.coerce.number().int().min(1).max(100).default(20),
+      cursor: z
+        .string()
+        .transform((rawCursor, ctx) => {
+          const cursor = decodeCursor(rawCursor)
+
+          if (!cursor) {
+            ctx.addIssue({
+              code: z.ZodIssueCode.custom,
+              message: 'Cursor inválido.',
+            })
 
-  // Listagem de todas as transações
+            return z.NEVER
+          }
+
+          return cursor
+        })
+        .optional(),
+    })
+
+  // Listagem das transações (com filtros, ordenação e paginação por cursor)
   app.get(
     '/',
     {
-      preHandler: [checkSessionIdExists], // as funções de preHandler são executadas antes do handler (função que lida com a rota)
+      preHandler: [ensureAuthenticated], // as funções de preHandler são executadas antes do handler (função que lida com a rota)
+      schema: {
+        summary: 'Lista as transações',
+        tags: ['transactions'],
+        security: sessionSecurity,
+        querystring: listTransactionsQuerySchema,
+        response: {
+          200: z.object({
+            transactions: z.array(transactionWithTagsSchema),
+            nextCursor: z.string().nullable(), // cursor da próxima página (null na última página)
+          }),
+          400: errorResponseSchema,
+          401: errorResponseSchema,
+        },
+      },
     },
     async (request) => {
-      const { sessionId } = request.cookies
+      const { sortBy, order, limit, cursor, ...filters } = request.query
 
-      // Seleciona todos os registros da tabela transactions associados ao sessionId obtido dos cookies
-      const transactions = await knex('transactions')
-        .where('session_id', sessionId)
-        .select()
+      const { sessionId } = request
+
+      const sortColumn = transactionsSortColumns[sortBy]
+
+      // Seleciona os registros da tabela transactions associados ao sessionId do cliente
+      const query = knex('transactions').where('session_id', sessionId)
+
+      applyTransactionsFilters(query, filters)
+
+      // Continua a partir do último registro da página anterior
+      if (cursor) {
+        applyCursor(query, sortColumn, order, cursor)
+      }
+
+      // Buscamos um registro a mais do que o limite apenas para saber se existe uma próxima página
+      const rows = await query
+        .orderBy([
+          { column: sortColumn, order },
+          { column: 'id', order },
+        ])
+        .limit(limit + 1)
+        .select('*', selectCursorValue(knex, sortColumn))
+
+      const transactions = await attachTags(knex, rows.slice(0, limit))
+      const lastRow = rows[limit - 1]
+
+      const nextCursor =
+        rows.length > limit
+          ? encodeCursor({ value: lastRow.cursor_value, id: lastRow.id })
+          : null
 
       // A vantagem de retornar um objeto em vez do array é que, caso precisarmos, será mais fácil adicionar ou remover informações futuramente
-      return { transactions }
+      return { transactions, nextCursor }
     },
   )
 
@@ -72,48 +304,707 @@ export async function transactionsRoutes(app: FastifyInstance) {
   app.get(
     '/:id',
     {
-      preHandler: [checkSessionIdExists], // as funções de preHandler são executadas antes do handler (função que lida com a rota)
+      preHandler: [ensureAuthenticated], // as funções de preHandler são executadas antes do handler (função que lida com a rota)
+      schema: {
+        summary: 'Obtém uma transação',
+        tags: ['transactions'],
+        security: sessionSecurity,
+        params: transactionParamsSchema, // esquema Zod que define as regras para o parâmetro da rota
+        response: {
+          200: z.object({ transaction: transactionWithTagsSchema }),
+          400: errorResponseSchema,
+          401: errorResponseSchema,
+          404: errorResponseSchema,
+        },
+      },
     },
     async (request) => {
-      // Esquema Zod que define as regras para o parâmetro da rota
-      const getTransactionsParamsSchema = z.object({
-        id: z.string().uuid(),
-      })
+      // Os parâmetros já chegam convertidos e validados conforme o esquema definido (transactionParamsSchema)
+      const { id } = request.params
 
-      // A função parse realiza tanto a conversão quanto a validação dos dados de entrada (request.params) conforme o esquema definido (getTransactionsParamsSchema)
-      const { id } = getTransactionsParamsSchema.parse(request.params)
+      const { sessionId } = request
 
-      const { sessionId } = request.cookies
-
-      // Seleciona o registro da tabela transactions associado ao id passado na requisição e ao sessionId obtido dos cookies
-      const transaction = await knex('transactions')
+      // Seleciona o registro da tabela transactions associado ao id passado na requisição e ao sessionId do cliente
+      const row = await knex('transactions')
         .where({
           session_id: sessionId,
           id,
         })
+        .whereNull('deleted_at') // transações excluídas não são exibidas
         .first() // por padrão, knex retorna um array. O método first retorna apenas o primeiro resultado, daí temos um objeto
 
+      if (!row) {
+        throw new NotFoundError('Transação não encontrada.')
+      }
+
+      const [transaction] = await attachTags(knex, [row])
+
       // A vantagem de retornar um objeto em vez do array é que, caso precisarmos, será mais fácil adicionar ou remover informações futuramente
       return { transaction }
     },
   )
 
+  // Edição de uma transação
+  app.patch(
+    '/:id',
+    {
+      preHandler: [ensureAuthenticated],
+      schema: {
+        summary: 'Edita uma transação',
+        tags: ['transactions'],
+        security: sessionSecurity,
+        params: transactionParamsSchema,
+        // Todos os campos são opcionais, mas pelo menos um deve ser informado
+        body: z
+          .object({
+            title: z.string(),
+            amount: minorUnitsSchema.positive(),
+            type: z.enum(['credit', 'debit']),
+            currency: currencySchema,
+            categoryId: z.string().uuid().nullable(), // com null, a transação fica sem categoria
+            tags: z.array(z.string()), // substitui todas as tags da transação
+            accountId: z.string().uuid(), // move a transação para outra conta
+          })
+          .partial()
+          .refine((body) => Object.keys(body).length > 0, {
+            message: 'Informe pelo menos um campo para ser alterado.',
+          }),
+        response: {
+          200: z.object({ transaction: transactionWithTagsSchema }),
+          400: errorResponseSchema,
+          401: errorResponseSchema,
+          404: errorResponseSchema,
+          409: errorResponseSchema,
+        },
+      },
+    },
+    async (request) => {
+      const { id } = request.params
+      const { body } = request
+
+      const { sessionId } = request
+
+      if (body.categoryId) {
+        const category = await knex('categories')
+          .where({ session_id: sessionId, id: body.categoryId })
+          .first()
+
+        if (!category) {
+          throw new BadRequestError('Categoria não encontrada.')
+        }
+      }
+
+      if (body.accountId) {
+        const account = await knex('accounts')
+          .where({ session_id: sessionId, id: body.accountId })
+          .first()
+
+        if (!account) {
+          throw new BadRequestError('Conta não encontrada.')
+        }
+      }
+
+      const transaction = await knex.transaction(async (trx) => {
+        const before = await trx('transactions')
+          .where({ session_id: sessionId, id })
+          .whereNull('deleted_at')
+          .first()
+
+        if (!before) {
+          return undefined
+        }
+
+        // As duas transações de uma transferência precisam continuar com o mesmo valor e a mesma moeda, em contas diferentes. Por isso, nelas só
+        // podem ser alterados o título, a categoria e as tags
+        if (
+          before.transfer_id &&
+          (body.amount !== undefined ||
+            body.type !== undefined ||
+            body.currency !== undefined ||
+            body.accountId !== undefined)
+        ) {
+          throw new ConflictError(
+            'O valor, o tipo, a moeda e a conta de uma transação de transferência não podem ser alterados.',
+          )
+        }
+
+        // O tipo e o valor absoluto que não forem informados são mantidos a partir do registro atual
+        const type = body.type ?? (before.amount < 0 ? 'debit' : 'credit')
+        const amount = Math.abs(body.amount ?? before.amount)
+
+        await trx('transactions')
+          .where({ id })
+          .update({
+            title: body.title ?? before.title,
+            amount: type === 'credit' ? amount : amount * -1,
+            currency: body.currency ?? before.currency,
+            category_id:
+              body.categoryId === undefined
+                ? before.category_id
+                : body.categoryId,
+            account_id: body.accountId ?? before.account_id,
+          })
+
+        if (body.tags) {
+          await replaceTransactionTags(trx, id, body.tags)
+        }
+
+        const after = await trx('transactions').where({ id }).first()
+
+        await recordTransactionHistory(trx, {
+          sessionId,
+          action: 'updated',
+          before,
+          after,
+        })
+
+        const [afterWithTags] = after ? await attachTags(trx, [after]) : []
+
+        return afterWithTags
+      })
+
+      if (!transaction) {
+        throw new NotFoundError('Transação não encontrada.')
+      }
+
+      await publishTransactionsEvents(knex, request.log, sessionId)
+
+      return { transaction }
+    },
+  )
+
+  // Exclusão (lógica) de uma transação
+  app.delete(
+    '/:id',
+    {
+      preHandler: [ensureAuthenticated],
+      schema: {
+        summary: 'Exclui uma transação (a transação vai para a lixeira)',
+        tags: ['transactions'],
+        security: sessionSecurity,
+        params: transactionParamsSchema,
+        response: {
+          204: z.null().describe('Transação excluída.'),
+          400: errorResponseSchema,
+          401: errorResponseSchema,
+          404: errorResponseSchema,
+        },
+      },
+    },
+    async (request, response) => {
+      const { id } = request.params
+
+      const { sessionId } = request
+
+      const deleted = await knex.transaction(async (trx) => {
+        const before = await trx('transactions')
+          .where({ session_id: sessionId, id })
+          .whereNull('deleted_at')
+          .first()
+
+        if (!before) {
+          return false
+        }
+
+        // Uma transferência é excluída por inteiro: as suas duas transações são excluídas juntas, assim nunca resta apenas metade dela
+        const rows = before.transfer_id
+          ? await trx('transactions')
+              .where({ session_id: sessionId, transfer_id: before.transfer_id })
+              .whereNull('deleted_at')
+              .select()
+          : [before]
+
+        for (const row of rows) {
+          // Em vez de apagar o registro, apenas marcamos a data da exclusão
+          await trx('transactions')
+            .where({ id: row.id })
+            .update({ deleted_at: knex.fn.now() })
+
+          const after = await trx('transactions').where({ id: row.id }).first()
+
+          await recordTransactionHistory(trx, {
+            sessionId,
+            action: 'deleted',
+            before: row,
+            after,
+          })
+        }
+
+        return true
+      })
+
+      if (!deleted) {
+        throw new NotFoundError('Transação não encontrada.')
+      }
+
+      await publishTransactionsEvents(knex, request.log, sessionId)
+
+      return response.status(204).send() // o status HTTP 204 indica que a requisição foi bem sucedida e que não há conteúdo para ser retornado
+    },
+  )
+
+  // Restauração de uma transação excluída
+  app.post(
+    '/:id/restore',
+    {
+      preHandler: [ensureAuthenticated],
+      schema: {
+        summary: 'Restaura uma transação excluída',
+        tags: ['transactions'],
+        security: sessionSecurity,
+        params: transactionParamsSchema,
+        response: {
+          200: z.object({ transaction: transactionSchema }),
+          400: errorResponseSchema,
+          401: errorResponseSchema,
+          404: errorResponseSchema,
+        },
+      },
+    },
+    async (request) => {
+      const { id } = request.params
+
+      const { sessionId } = request
+
+      const transaction = await knex.transaction(async (trx) => {
+        const before = await trx('transactions')
+          .where({ session_id: sessionId, id })
+          .whereNotNull('deleted_at')
+          .first()
+
+        if (!before) {
+          return undefined
+        }
+
+        // Assim como na exclusão, as duas transações de uma transferência são restauradas juntas
+        const rows = before.transfer_id
+          ? await trx('transactions')
+              .where({ session_id: sessionId, transfer_id: before.transfer_id })
+              .whereNotNull('deleted_at')
+              .select()
+          : [before]
+
+        for (const row of rows) {
+          await trx('transactions')
+            .where({ id: row.id })
+            .update({ deleted_at: null })
+
+          const after = await trx('transactions').where({ id: row.id }).first()
+
+          await recordTransactionHistory(trx, {
+            sessionId,
+            action: 'restored',
+            before: row,
+            after,
+          })
+        }
+
+        return trx('transactions').where({ id }).first()
+      })
+
+      if (!transaction) {
+        throw new NotFoundError('Transação excluída não encontrada.')
+      }
+
+      await publishTransactionsEvents(knex, request.log, sessionId)
+
+      return { transaction }
+    },
+  )
+
+  // Obter o histórico de alterações de uma transação (inclusive das excluídas)
+  app.get(
+    '/:id/history',
+    {
+      preHandler: [ensureAuthenticated],
+      schema: {
+        summary: 'Obtém o histórico de alterações de uma transação',
+        tags: ['transactions'],
+        security: sessionSecurity,
+        params: transactionParamsSchema,
+        response: {
+          200: z.object({
+            history: z.array(
+              z.object({
+                action: z.enum(['created', 'updated', 'deleted', 'restored']),
+                before: z.record(z.unknown()).nullable(), // registro da transação antes da alteração
+                after: z.record(z.unknown()).nullable(), // registro da transação depois da alteração
+                created_at: databaseDateSchema.optional(),
+              }),
+            ),
+          }),
+          400: errorResponseSchema,
+          401: errorResponseSchema,
+        },
+      },
+    },
+    async (request) => {
+      const { id } = request.params
+
+      const { sessionId } = request
+
+      const rows = await knex('transaction_history')
+        .where({ session_id: sessionId, transaction_id: id })
+        .orderBy('id')
+        .select()
+
+      // As colunas before e after são armazenadas como texto (JSON), então convertemos de volta para objetos (sem o session_id, que não é enviado ao cliente)
+      const history = rows.map((row) => ({
+        action: row.action,
+        before: row.before ? omitSessionId(JSON.parse(row.before)) : null,
+        after: row.after ? omitSessionId(JSON.parse(row.after)) : null,
+        created_at: row.created_at,
+      }))
+
+      return { history }
+    },
+  )
+
   // Obter o resumo das transações
   app.get(
     '/summary',
     {
-      preHandler: [checkSessionIdExists], // as funções de preHandler são executadas antes do handler (função que lida com a rota)
+      preHandler: [ensureAuthenticated], // as funções de preHandler são executadas antes do handler (função que lida com a rota)
+      schema: {
+        summary: 'Obtém o resumo das transações e o saldo das contas',
+        tags: ['transactions'],
+        security: sessionSecurity,
+        // Com groupBy, além do total, o resumo também é devolvido agrupado por categoria ou por tag.
+        // Com currency, os valores de todas as transações são convertidos para a moeda informada, usando a cotação válida na data de cada uma.
+        // Sem currency, o resumo e os grupos consideram apenas as transações na moeda padrão (DEFAULT_CURRENCY), pois moedas diferentes não podem ser somadas
+        querystring: z.object({
+          groupBy: z.enum(['category', 'tag']).optional(),
+          currency: currencySchema.optional(),
+        }),
+        response: {
+          200: z.object({
+            summary: z.object({
+              amount: z.number().nullable(), // sem transações, a soma é nula
+              currency: z.string(), // moeda da soma: a moeda informada em currency ou a moeda padrão
+            }),
+            groups: z
+              .array(
+                z.object({
+                  category_id: z.string().nullable().optional(), // com groupBy=category
+                  name: z.string().nullable().optional(), // com groupBy=category
+                  tag: z.string().nullable().optional(), // com groupBy=tag
+                  amount: z.number(),
+                }),
+              )
+              .optional(),
+            accounts: z.array(accountWithBalanceSchema),
+            totalBalance: z.number(),
+          }),
+          400: errorResponseSchema,
+          401: errorResponseSchema,
+          422: errorResponseSchema,
+        },
+      },
     },
     async (request) => {
-      const { sessionId } = request.cookies
+      const { groupBy, currency } = request.query
+
+      const { sessionId } = request
+
+      if (currency) {
+        const convert = await createCurrencyConverter(knex, sessionId, currency)
+
+        // As transações são somadas por moeda e por dia (em UTC), pois cada dia pode ter uma cotação diferente
+        const day = periodExpression('day', 0, 'transactions.created_at')
+
+        const query = knex('transactions')
+          .where('transactions.session_id', sessionId)
+          .whereNull('transactions.deleted_at')
+          .groupBy('transactions.currency', knex.raw(day))
+          .select('transactions.currency', knex.raw(`${day} as day`))
+          .sum('transactions.amount', { as: 'amount' })
+
+        // O total usa a consulta sem joins: com o join das tags, uma transação com várias tags apareceria em várias linhas e seria somada mais de uma vez
+        let amount = 0
+
+        for (const row of await query.clone()) {
+          // Sem a cotação de alguma moeda, convert lança MissingExchangeRateError (status 422)
+          amount += convert(row)
+        }
+
+        if (groupBy === 'category') {
+          query
+            .leftJoin('categories', 'categories.id', 'transactions.category_id')
+            .groupBy('transactions.category_id', 'categories.name')
+            .orderBy('categories.name')
+            .select('transactions.category_id', 'categories.name')
+        }
+
+        if (groupBy === 'tag') {
+          query
+            .leftJoin(
+              'transaction_tags',
+              'transaction_tags.transaction_id',
+              'transactions.id',
+            )
+            .groupBy('transaction_tags.tag')
+            .orderBy('transaction_tags.tag')
+            .select('transaction_tags.tag')
+        }
+
+        const groups = new Map<
+          string | null,
+          Record<string, unknown> & { amount: number }
+        >()
+
+        for (const row of groupBy ? await query : []) {
+          const convertedAmount = convert(row)
+
+          const key = groupBy === 'category' ? row.category_id : row.tag
+          const group = groups.get(key)
 
-      // Devolve a soma das transações (coluna amount da tabela transactions) associadas ao sessionId obtido dos cookies
-      const summary = await knex('transactions')
+          if (group) {
+            group.amount += convertedAmount
+          } else {
+            groups.set(
+              key,
+              groupBy === 'category'
+                ? {
+                    category_id: row.category_id,
+                    name: row.name,
+                    amount: convertedAmount,
+                  }
+                : { tag: row.tag, amount: convertedAmount },
+            )
+          }
+        }
+
+        const accounts = await getAccountsWithBalance(knex, sessionId)
+        const totalBalance = accounts.reduce(
+          (total, account) => total + account.balance,
+          0,
+        )
+
+        return {
+          summary: { amount, currency },
+          ...(groupBy && { groups: [...groups.values()] }),
+          accounts,
+          totalBalance,
+        }
+      }
+
+      const { summary, accounts, totalBalance } = await getTransactionsSummary(
+        knex,
+        sessionId,
+      )
+
+      if (groupBy === 'category') {
+        // O left join mantém as transações sem categoria, que formam um grupo com category_id e name nulos
+        const groups = await knex('transactions')
+          .leftJoin('categories', 'categories.id', 'transactions.category_id')
+          .where('transactions.session_id', sessionId)
+          .where('transactions.currency', DEFAULT_CURRENCY)
+          .whereNull('transactions.deleted_at')
+          .groupBy('transactions.category_id', 'categories.name')
+          .orderBy('categories.name')
+          .select('transactions.category_id', 'categories.name')
+          .sum('transactions.amount', { as: 'amount' })
+
+        return { summary, groups, accounts, totalBalance }
+      }
+
+      if (groupBy === 'tag') {
+        // Uma transação com várias tags é contabilizada em cada uma delas. As transações sem tags formam um grupo com tag nula
+        const groups = await knex('transactions')
+          .leftJoin(
+            'transaction_tags',
+            'transaction_tags.transaction_id',
+            'transactions.id',
+          )
+          .where('transactions.session_id', sessionId)
+          .where('transactions.currency', DEFAULT_CURRENCY)
+          .whereNull('transactions.deleted_at')
+          .groupBy('transaction_tags.tag')
+          .orderBy('transaction_tags.tag')
+          .select('transaction_tags.tag')
+          .sum('transactions.amount', { as: 'amount' })
+
+        return { summary, groups, accounts, totalBalance }
+      }
+
+      return { summary, accounts, totalBalance }
+    },
+  )
+
+  // Obter a série temporal do resumo: créditos, débitos, saldo do período e saldo acumulado ao final de cada período
+  app.get(
+    '/summary/timeline',
+    {
+      preHandler: [ensureAuthenticated],
+      schema: {
+        summary: 'Obtém a série temporal do resumo das transações',
+        tags: ['transactions'],
+        security: sessionSecurity,
+        querystring: z
+          .object({
+            interval: z.enum(['day', 'week', 'month']).default('month'),
+            from: z.coerce.date().optional(),
+            to: z.coerce.date().optional(),
+            timezoneOffset: z
+              .string()
+              .regex(/^[+-]\d{2}:\d{2}$/, 'Use o formato ±HH:MM.')
+              .default('+00:00'), // deslocamento do fuso horário usado para definir onde cada dia começa (ex.: -03:00)
+            // Apenas as transações nesta moeda entram na série, pois valores em moedas diferentes não podem ser somados
+            currency: currencySchema.default(DEFAULT_CURRENCY),
+          })
+          .refine(
+            ({ interval, from, to = new Date() }) =>
+              !from ||
+              (to.getTime() - from.getTime()) / (24 * 60 * 60 * 1000) <=
+                maxTimelineDays[interval],
+            {
+              message: 'O intervalo de datas é grande demais para o período.',
+            },
+          ),
+        response: {
+          200: z.object({
+            currency: z.string(),
+            timeline: z.array(
+              z.object({
+                period: z.string(), // início do período (YYYY-MM-DD)
+                credits: z.number(),
+                debits: z.number(),
+                net: z.number(), // créditos - débitos
+                balance: z.number(), // saldo acumulado ao final do período
+              }),
+            ),
+          }),
+          400: errorResponseSchema,
+          401: errorResponseSchema,
+        },
+      },
+    },
+    async (request) => {
+      const { interval, from, to, timezoneOffset, currency } = request.query
+
+      const { sessionId } = request
+
+      const offsetMinutes = parseTimezoneOffset(timezoneOffset)
+      const period = periodExpression(interval, offsetMinutes)
+
+      const totalsQuery = knex('transactions')
         .where('session_id', sessionId)
-        .sum('amount', { as: 'amount' }) // com { as: 'amount' }, estamos especificando um alías para a coluna sum('amount')
-        .first() // por padrão, knex retorna um array. O método first retorna apenas o primeiro resultado, daí temos um objeto
+        .select<TimelinePeriodTotals[]>(
+          knex.raw(`${period} as period`),
+          knex.raw(
+            'sum(case when amount > 0 then amount else 0 end) as credits',
+          ),
+          knex.raw(
+            'sum(case when amount < 0 then -amount else 0 end) as debits',
+          ),
+        )
+        .groupByRaw(period)
+
+      applyTransactionsFilters(totalsQuery, { from, to, currency })
+
+      const totals = await totalsQuery
+
+      // O saldo de abertura é a soma de todas as transações anteriores ao início do intervalo
+      const opening = from
+        ? await knex('transactions')
+            .where('session_id', sessionId)
+            .where('currency', currency)
+            .whereNull('deleted_at')
+            .where('created_at', '<', toDatabaseDate(from))
+            .sum('amount', { as: 'amount' })
+            .first()
+        : undefined
+
+      // Sem transações anteriores, a soma do saldo de abertura é nula
+      const timeline = buildTimeline({
+        interval,
+        offsetMinutes,
+        from,
+        to,
+        openingBalance: opening?.amount ?? 0,
+        totals,
+      })
+
+      return { currency, timeline }
+    },
+  )
+
+  // Transmissão ao vivo (Server-Sent Events) das alterações nas transações: eventos transaction.created para as transações criadas e summary.updated
+  // com o resumo atualizado a cada alteração. Substitui as consultas periódicas a GET /transactions/summary
+  app.get(
+    '/stream',
+    {
+      preHandler: [ensureAuthenticated],
+      schema: {
+        summary: 'Transmite as alterações das transações (Server-Sent Events)',
+        tags: ['transactions'],
+        security: sessionSecurity,
+        // Ao reconectar, o cliente informa o id do último evento recebido e recebe os eventos publicados depois dele
+        headers: z
+          .object({ 'last-event-id': z.string().optional() })
+          .passthrough(),
+      },
+    },
+    async (request, response) => {
+      const { sessionId } = request
+      const lastEventId = request.headers['last-event-id']
+
+      // A resposta fica aberta e é escrita diretamente no objeto de resposta do Node.js. Com o hijack, o Fastify deixa de enviar a resposta por conta própria
+      // (e os cabeçalhos definidos pelos hooks, como o X-Request-Id, também precisam ser escritos aqui)
+      response.hijack()
+      response.raw.writeHead(200, {
+        'Content-Type': 'text/event-stream',
+        'Cache-Control': 'no-cache',
+        Connection: 'keep-alive',
+        [REQUEST_ID_HEADER]: request.id,
+      })
+
+      function send(event: ServerSentEvent) {
+        response.raw.write(formatServerSentEvent(event))
+      }
+
+      // Os eventos publicados enquanto os eventos perdidos são reenviados ficam na fila, para serem enviados depois deles e na ordem certa
+      const queued: BusEvent[] = []
+      let replaying = true
+
+      const unsubscribe = eventBus.subscribe(sessionId, (event) => {
+        if (replaying) {
+          queued.push(event)
+        } else {
+          send(event)
+        }
+      })
+
+      const heartbeat = setInterval(() => {
+        response.raw.write(': heartbeat\n\n')
+      }, HEARTBEAT_INTERVAL)
+
+      response.raw.on('close', () => {
+        clearInterval(heartbeat)
+        unsubscribe()
+      })
+
+      const missed = lastEventId
+        ? await eventBus.getEventsAfter(sessionId, lastEventId)
+        : []
+
+      for (const event of missed) {
+        send(event)
+      }
+
+      // O resumo atual é enviado a cada conexão (sem id), assim o cliente começa com os valores corretos mesmo que os eventos perdidos não estejam mais guardados
+      send({
+        type: 'summary.updated',
+        data: await getTransactionsSummary(knex, sessionId),
+      })
+
+      for (const event of queued) {
+        if (!missed.some(({ id }) => id === event.id)) {
+          send(event)
+        }
+      }
 
-      return { summary }
+      replaying = false
     },
   )
 }
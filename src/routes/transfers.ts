@@ -0,0 +1,117 @@
+import { randomUUID } from 'node:crypto'
+import type { FastifyInstance } from 'fastify'
+import { z } from 'zod'
+import { knex } from '../database'
+import { ensureAuthenticated } from '../middlewares/ensure-authenticated'
+import { BadRequestError } from '../utils/errors'
+import {
+  currencySchema,
+  DEFAULT_CURRENCY,
+  minorUnitsSchema,
+} from '../utils/money'
+import { publishTransactionsEvents } from '../utils/transaction-events'
+import { recordTransactionHistory } from '../utils/transaction-history'
+import { omitSessionId } from '../utils/session'
+
+export async function transfersRoutes(app: FastifyInstance) {
+  // Transferência entre duas contas da mesma sessão
+  app.post(
+    '/',
+    {
+      preHandler: [ensureAuthenticated],
+    },
+    async (request, response) => {
+      const createTransferBodySchema = z
+        .object({
+          fromAccountId: z.string().uuid(),
+          toAccountId: z.string().uuid(),
+          amount: minorUnitsSchema.positive(), // em unidades menores da moeda (centavos)
+          currency: currencySchema.default(DEFAULT_CURRENCY),
+          title: z.string().trim().min(1).optional(),
+        })
+        .refine((body) => body.fromAccountId !== body.toAccountId, {
+          message: 'As contas de origem e de destino devem ser diferentes.',
+          path: ['toAccountId'],
+        })
+
+      const { fromAccountId, toAccountId, amount, currency, title } =
+        createTransferBodySchema.parse(request.body)
+
+      const { sessionId } = request
+
+      const accounts = await knex('accounts')
+        .where('session_id', sessionId)
+        .whereIn('id', [fromAccountId, toAccountId])
+        .select()
+
+      const fromAccount = accounts.find(({ id }) => id === fromAccountId)
+      const toAccount = accounts.find(({ id }) => id === toAccountId)
+
+      if (!fromAccount || !toAccount) {
+        throw new BadRequestError('Conta não encontrada.')
+      }
+
+      const transferId = randomUUID()
+
+      // O débito na conta de origem e o crédito na conta de destino são gravados na mesma transação do banco de dados.
+      // Se qualquer uma das operações falhar, o knex desfaz (rollback) todas elas, então nunca teremos apenas metade da transferência gravada
+      const transactions = await knex.transaction(async (trx) => {
+        const debitId = randomUUID()
+        const creditId = randomUUID()
+
+        await trx('transactions').insert([
+          {
+            id: debitId,
+            title: title ?? `Transferência para ${toAccount.name}`,
+            amount: amount * -1,
+            currency,
+            session_id: sessionId,
+            account_id: fromAccountId,
+            transfer_id: transferId,
+          },
+          {
+            id: creditId,
+            title: title ?? `Transferência de ${fromAccount.name}`,
+            amount,
+            currency,
+            session_id: sessionId,
+            account_id: toAccountId,
+            transfer_id: transferId,
+          },
+        ])
+
+        const rows = await trx('transactions')
+          .where('transfer_id', transferId)
+          .select()
+
+        for (const row of rows) {
+          await recordTransactionHistory(trx, {
+            sessionId,
+            action: 'created',
+            after: row,
+          })
+        }
+
+        return rows
+      })
+
+      await publishTransactionsEvents(
+        knex,
+        request.log,
+        sessionId,
+        transactions,
+      )
+
+      return response.status(201).send({
+        transfer: {
+          id: transferId,
+          fromAccountId,
+          toAccountId,
+          amount,
+          currency,
+          transactions: transactions.map(omitSessionId),
+        },
+      })
+    },
+  )
+}
@@ -1,5 +1,6 @@
 import { app } from './app'
 import { env } from './env'
+import { startRecurringTransactionsScheduler } from './jobs/recurring-transactions'
 
 app
   .listen({
@@ -7,5 +8,9 @@ app
     host: 'RENDER' in process.env ? '0.0.0.0' : 'localhost',
   })
   .then(() => {
-    console.log('HTTP Server Running!')
+    // Cria periodicamente as ocorrências das transações recorrentes
+    startRecurringTransactionsScheduler(
+      env.RECURRING_SCHEDULER_INTERVAL,
+      app.log,
+    )
   })
@@ -0,0 +1,67 @@
+import { randomUUID } from 'node:crypto'
+import type { Knex } from 'knex'
+import { DEFAULT_CURRENCY } from './money'
+
+export const accountKinds = [
+  'cash',
+  'checking',
+  'savings',
+  'credit_card',
+] as const
+
+// Devolve a conta usada quando uma transação é criada sem accountId: a conta mais antiga da sessão.
+// Se a sessão ainda não tiver nenhuma conta, uma conta principal é criada
+export async function getDefaultAccountId(db: Knex, sessionId: string) {
+  const account = await db('accounts')
+    .where('session_id', sessionId)
+    .orderBy('created_at')
+    .first()
+
+  if (account) {
+    return account.id
+  }
+
+  const id = randomUUID()
+
+  await db('accounts').insert({
+    id,
+    session_id: sessionId,
+    name: 'Conta principal',
+    kind: 'checking',
+    opening_balance: 0,
+  })
+
+  return id
+}
+
+// Devolve as contas da sessão com o saldo atual de cada uma (saldo inicial + soma das transações não excluídas), na moeda padrão (DEFAULT_CURRENCY).
+// As transações em outras moedas não entram no saldo, pois os seus valores não podem ser somados aos da moeda padrão
+export async function getAccountsWithBalance(db: Knex, sessionId: string) {
+  const accounts = await db('accounts')
+    .leftJoin('transactions', (join) => {
+      join
+        .on('transactions.account_id', 'accounts.id')
+        .andOnNull('transactions.deleted_at')
+        .andOnVal('transactions.currency', DEFAULT_CURRENCY)
+    })
+    .where('accounts.session_id', sessionId)
+    .groupBy('accounts.id')
+    .orderBy('accounts.created_at')
+    // O session_id da conta não é selecionado, pois não pode ser enviado ao cliente (veja omitSessionId em src/utils/session.ts)
+    .select(
+      'accounts.id',
+      'accounts.name',
+      'accounts.kind',
+      'accounts.opening_balance',
+      'accounts.created_at',
+      db.raw('coalesce(sum(transactions.amount), 0) as transactions_amount'),
+    )
+
+  // Os valores são inteiros em centavos, então a soma é exata (no pg, bigint e numeric são convertidos para number em database.ts)
+  return accounts.map(
+    ({ transactions_amount: transactionsAmount, ...account }) => ({
+      ...account,
+      balance: account.opening_balance + Number(transactionsAmount),
+    }),
+  )
+}
@@ -0,0 +1,48 @@
+import { createHash, randomBytes } from 'node:crypto'
+import type { FastifyReply } from 'fastify'
+import type { Knex } from 'knex'
+import { toDatabaseDate } from '../database'
+
+const USER_SESSION_MAX_AGE = 60 * 60 * 24 * 30 // o login expira em 30 dias
+
+// Tabelas cujos registros pertencem a uma sessão (coluna session_id). No cadastro, os registros da sessão anônima são transferidos para o novo usuário
+export const sessionOwnedTables = [
+  'transactions',
+  'transaction_history',
+  'categories',
+  'accounts',
+  'recurring_transactions',
+  'exchange_rates',
+  'budgets',
+  'idempotency_keys',
+  'ledgers', // o livro pessoal da sessão anônima
+  'ledger_members', // as participações da sessão anônima em livros compartilhados
+] as const
+
+export function hashToken(token: string) {
+  return createHash('sha256').update(token).digest('hex')
+}
+
+// Cria um login para o usuário e envia o token ao cliente no cookie token
+export async function createUserSession(
+  db: Knex,
+  userId: string,
+  response: FastifyReply,
+) {
+  const token = randomBytes(32).toString('base64url')
+
+  await db('user_sessions').insert({
+    token_hash: hashToken(token),
+    user_id: userId,
+    expires_at: toDatabaseDate(
+      new Date(Date.now() + USER_SESSION_MAX_AGE * 1000),
+    ),
+  })
+
+  response.setCookie('token', token, {
+    path: '/',
+    maxAge: USER_SESSION_MAX_AGE,
+    httpOnly: true, // o token não fica acessível ao JavaScript do navegador
+    sameSite: 'lax',
+  })
+}
@@ -0,0 +1,173 @@
+import type { Knex } from 'knex'
+import type { Tables } from 'knex/types/tables'
+import { z } from 'zod'
+import { parseDatabaseDate, toDatabaseDate } from '../database'
+import { omitSessionId } from './session'
+import { periodExpression } from './timeline'
+import { escapeLike } from './transactions-filters'
+
+type Budget = Tables['budgets']
+
+export const monthSchema = z
+  .string()
+  .regex(/^\d{4}-(0[1-9]|1[0-2])$/, 'Use o formato YYYY-MM.')
+
+// Mês (YYYY-MM, em UTC) de uma data
+export function toMonth(date: Date) {
+  return date.toISOString().slice(0, 7)
+}
+
+// Início do mês e início do mês seguinte, em UTC
+function monthRange(month: string) {
+  const [year, monthNumber] = month.split('-').map(Number)
+
+  return [
+    new Date(Date.UTC(year, monthNumber - 1, 1)),
+    new Date(Date.UTC(year, monthNumber, 1)),
+  ] as const
+}
+
+// Prepara o orçamento para ser enviado ao cliente: o SQLite devolve as colunas boolean como 0 ou 1, então normalizamos rollover, e o session_id é removido
+export function formatBudget(budget: Budget) {
+  return { ...omitSessionId(budget), rollover: Boolean(budget.rollover) }
+}
+
+// Restringe a consulta às transações que contam como gasto do orçamento: débitos não excluídos, na moeda do orçamento e que não sejam transferências
+// entre contas. Se informados, a categoria e o trecho do título (em que * corresponde a qualquer sequência de caracteres) também precisam coincidir
+export function applyBudgetScope(query: Knex.QueryBuilder, budget: Budget) {
+  query
+    .where('session_id', budget.session_id)
+    .whereNull('deleted_at')
+    .whereNull('transfer_id')
+    .where('amount', '<', 0)
+    .where('currency', budget.currency)
+
+  if (budget.category_id) {
+    query.where('category_id', budget.category_id)
+  }
+
+  if (budget.title_pattern) {
+    const pattern = escapeLike(budget.title_pattern.toLowerCase()).replace(
+      /\*/g,
+      '%',
+    )
+
+    query.whereRaw("lower(title) like ? escape '\\'", [`%${pattern}%`])
+  }
+}
+
+// Calcula a situação do orçamento em um mês: limite (com o saldo acumulado dos meses anteriores, se houver), gasto, saldo restante e percentual usado
+export async function getBudgetStatus(db: Knex, budget: Budget, month: string) {
+  const rollover = Boolean(budget.rollover)
+
+  // Com acúmulo, os gastos de todos os meses desde o início do orçamento são necessários para calcular o saldo que passa de um mês para o outro
+  const [from] = monthRange(rollover ? budget.start_month : month)
+  const [, to] = monthRange(month)
+
+  const period = periodExpression('month', 0)
+
+  const query = db('transactions')
+  applyBudgetScope(query, budget)
+
+  const totals = await query
+    .where('created_at', '>=', toDatabaseDate(from))
+    .where('created_at', '<', toDatabaseDate(to))
+    .groupBy(db.raw(period))
+    .select<{ period: string; amount: number }[]>(
+      db.raw(`${period} as period`),
+      db.raw('sum(amount) as amount'),
+    )
+
+  // period está no formato YYYY-MM-01. Os gastos são débitos (valores negativos), por isso invertemos o sinal
+  const spentByMonth = new Map(
+    totals.map((row) => [row.period.slice(0, 7), -row.amount]),
+  )
+
+  // O saldo não usado de um mês é somado ao limite do mês seguinte. Um mês estourado não reduz o limite dos próximos
+  let rolledOver = 0
+
+  if (rollover) {
+    for (
+      let current = budget.start_month;
+      current < month;
+      current = toMonth(monthRange(current)[1])
+    ) {
+      const limit = budget.amount + rolledOver
+
+      rolledOver = Math.max(0, limit - (spentByMonth.get(current) ?? 0))
+    }
+  }
+
+  const limit = budget.amount + rolledOver
+  const spent = spentByMonth.get(month) ?? 0
+
+  return {
+    budget: formatBudget(budget),
+    month,
+    limit,
+    rolledOver,
+    spent,
+    remaining: limit - spent,
+    percentUsed: Math.round((spent / limit) * 10000) / 100, // com duas casas decimais
+    overspent: spent > limit,
+  }
+}
+
+// Devolve um aviso para cada orçamento que ficou acima do limite com a transação informada (isto é, que conta a transação como gasto).
+// Os orçamentos que já estavam acima do limite antes da transação não geram um novo aviso
+export async function getBudgetWarnings(db: Knex, transactionId: string) {
+  const transaction = await db('transactions')
+    .where('id', transactionId)
+    .first()
+
+  if (!transaction || transaction.amount >= 0 || transaction.transfer_id) {
+    return []
+  }
+
+  const month = toMonth(parseDatabaseDate(transaction.created_at))
+
+  const budgets = await db('budgets')
+    .where({
+      session_id: transaction.session_id,
+      currency: transaction.currency,
+    })
+    .where('start_month', '<=', month)
+    .orderBy('name')
+    .select()
+
+  const warnings = []
+
+  for (const budget of budgets) {
+    const query = db('transactions')
+    applyBudgetScope(query, budget)
+
+    const counted = await query.where('id', transactionId).first()
+
+    if (!counted) {
+      continue
+    }
+
+    const { limit, spent } = await getBudgetStatus(db, budget, month)
+
+    // O gasto antes da transação é o gasto atual sem o valor dela (o valor de um débito é negativo)
+    const spentBefore = spent + transaction.amount
+
+    if (spentBefore <= limit && spent > limit) {
+      warnings.push({
+        budgetId: budget.id,
+        name: budget.name,
+        limit,
+        spent,
+        message: `O orçamento "${budget.name}" ultrapassou o limite do mês.`,
+      })
+    }
+  }
+
+  return warnings
+}
+
+/*
+Observações:
+- Os meses dos orçamentos são considerados em UTC, assim como as datas das transações armazenadas no banco de dados.
+- Os meses (YYYY-MM) podem ser comparados como texto, pois a ordem alfabética é a mesma ordem cronológica.
+*/
@@ -0,0 +1,74 @@
+// Converte um texto CSV em uma lista de linhas, em que cada linha é uma lista de campos.
+// Segue a RFC 4180: campos podem estar entre aspas duplas, o que permite que eles contenham o delimitador, quebras de linha e aspas (escritas como "")
+export function parseCsv(text: string, delimiter = ',') {
+  const rows: string[][] = []
+
+  let row: string[] = []
+  let field = ''
+  let inQuotes = false
+
+  // Remove o BOM (byte order mark) que alguns programas, como o Excel, colocam no início do arquivo
+  const content = text.replace(/^\uFEFF/, '')
+
+  for (let index = 0; index < content.length; index++) {
+    const char = content[index]
+
+    if (inQuotes) {
+      if (char === '"' && content[index + 1] === '"') {
+        field += '"'
+        index++
+      } else if (char === '"') {
+        inQuotes = false
+      } else {
+        field += char
+      }
+    } else if (char === '"') {
+      inQuotes = true
+    } else if (char === delimiter) {
+      row.push(field)
+      field = ''
+    } else if (char === '\n' || char === '\r') {
+      // Trata \r\n (Windows) como uma única quebra de linha
+      if (char === '\r' && content[index + 1] === '\n') {
+        index++
+      }
+
+      row.push(field)
+      rows.push(row)
+      row = []
+      field = ''
+    } else {
+      field += char
+    }
+  }
+
+  // A última linha pode não terminar com uma quebra de linha
+  if (field !== '' || row.length > 0) {
+    row.push(field)
+    rows.push(row)
+  }
+
+  // Linhas em branco são ignoradas
+  return rows.filter((row) => row.some((field) => field.trim() !== ''))
+}
+
+// Converte uma lista de valores em uma linha CSV (terminada com \r\n, como na RFC 4180).
+// Os campos que contêm o delimitador, aspas ou quebras de linha são colocados entre aspas duplas
+export function toCsvLine(values: (string | number | null)[], delimiter = ',') {
+  const fields = values.map((value) => {
+    const field = value === null ? '' : String(value)
+
+    if (
+      field.includes(delimiter) ||
+      field.includes('"') ||
+      field.includes('\n') ||
+      field.includes('\r')
+    ) {
+      return `"${field.replace(/"/g, '""')}"`
+    }
+
+    return field
+  })
+
+  return `${fields.join(delimiter)}\r\n`
+}
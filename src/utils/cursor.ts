@@ -0,0 +1,74 @@
+import type { Knex } from 'knex'
+import { env } from '../env'
+
+// O cursor é opaco para o cliente: ele apenas devolve o valor recebido em nextCursor para obter a próxima página.
+// Internamente, o cursor guarda o valor da coluna de ordenação e o id do último registro da página (desempate).
+export interface Cursor {
+  value: string | number
+  id: string
+}
+
+export function encodeCursor(cursor: Cursor) {
+  return Buffer.from(JSON.stringify([cursor.value, cursor.id])).toString(
+    'base64url',
+  )
+}
+
+// Retorna null se o cursor não estiver no formato esperado, assim quem chama decide como reportar o erro
+export function decodeCursor(rawCursor: string): Cursor | null {
+  try {
+    const decoded = JSON.parse(
+      Buffer.from(rawCursor, 'base64url').toString('utf-8'),
+    )
+
+    if (
+      !Array.isArray(decoded) ||
+      decoded.length !== 2 ||
+      !['string', 'number'].includes(typeof decoded[0]) ||
+      typeof decoded[1] !== 'string'
+    ) {
+      return null
+    }
+
+    return { value: decoded[0], id: decoded[1] }
+  } catch {
+    return null
+  }
+}
+
+// Nome da coluna, incluída na consulta, com o valor da coluna de ordenação que será guardado no cursor
+export const CURSOR_VALUE_COLUMN = 'cursor_value'
+
+// No PostgreSQL, created_at é um timestamptz com precisão de microssegundos, mas o driver pg o devolve como Date, que guarda apenas milissegundos.
+// Com o valor arredondado no cursor, os registros do mesmo milissegundo do último registro da página seriam pulados (ordem decrescente) ou
+// repetidos (ordem crescente). Por isso o valor da coluna de ordenação é selecionado como texto, com a precisão completa
+export function selectCursorValue(knex: Knex, column: string) {
+  return knex.raw(
+    env.DATABASE_CLIENT === 'pg' ? '??::text as ??' : '?? as ??',
+    [column, CURSOR_VALUE_COLUMN],
+  )
+}
+
+// Continua a consulta a partir do registro do cursor, na ordem informada. O id é usado como critério de desempate quando há valores iguais na coluna
+// de ordenação, por isso a consulta também precisa ser ordenada pelo id
+export function applyCursor(
+  query: Knex.QueryBuilder,
+  column: string,
+  order: 'asc' | 'desc',
+  cursor: Cursor,
+) {
+  const operator = order === 'asc' ? '>' : '<'
+
+  query.where((builder) => {
+    builder.where(column, operator, cursor.value).orWhere((tieBuilder) => {
+      tieBuilder.where(column, cursor.value).andWhere('id', operator, cursor.id)
+    })
+  })
+}
+
+/*
+Observações:
+- A paginação por cursor (keyset pagination) é mais eficiente que a paginação por offset, pois o banco de dados não precisa percorrer as linhas das páginas 
+anteriores. Além disso, ela não pula nem repete registros quando novas transações são criadas entre uma página e outra.
+- A codificação base64url é segura para ser usada em query strings sem precisar de escape.
+*/
@@ -0,0 +1,63 @@
+import { z } from 'zod'
+
+// Problema em um campo específico da requisição (ex.: { field: 'amount', message: 'Expected number, received string' })
+export interface ErrorIssue {
+  field: string
+  message: string
+}
+
+// Esquema Zod de todas as respostas de erro da API. Ele é usado na serialização das respostas de erro e na documentação OpenAPI das rotas
+export const errorResponseSchema = z.object({
+  code: z.string(),
+  message: z.string(),
+  issues: z.array(z.object({ field: z.string(), message: z.string() })),
+})
+
+// Erro esperado da aplicação. O tratador de erros global (src/middlewares/error-handler.ts) o converte em uma resposta com o status HTTP, o código e a
+// mensagem do erro. Lance uma das subclasses abaixo em vez de montar a resposta de erro na própria rota
+export class AppError extends Error {
+  constructor(
+    public statusCode: number,
+    public code: string,
+    message: string,
+    public issues: ErrorIssue[] = [],
+  ) {
+    super(message)
+  }
+}
+
+export class BadRequestError extends AppError {
+  constructor(message: string, issues?: ErrorIssue[]) {
+    super(400, 'BAD_REQUEST', message, issues)
+  }
+}
+
+export class UnauthorizedError extends AppError {
+  constructor(message = 'Não autorizado.') {
+    super(401, 'UNAUTHORIZED', message)
+  }
+}
+
+export class ForbiddenError extends AppError {
+  constructor(message: string) {
+    super(403, 'FORBIDDEN', message)
+  }
+}
+
+export class NotFoundError extends AppError {
+  constructor(message: string) {
+    super(404, 'NOT_FOUND', message)
+  }
+}
+
+export class ConflictError extends AppError {
+  constructor(message: string) {
+    super(409, 'CONFLICT', message)
+  }
+}
+
+export class UnprocessableEntityError extends AppError {
+  constructor(message: string) {
+    super(422, 'UNPROCESSABLE_ENTITY', message)
+  }
+}
@@ -0,0 +1,96 @@
+import { EventEmitter } from 'node:events'
+
+// Evento publicado para uma sessão. O id é crescente e é usado pelos clientes para retomar a transmissão (cabeçalho Last-Event-ID)
+export interface BusEvent {
+  id: string
+  type: string
+  data: unknown
+}
+
+export type BusEventListener = (event: BusEvent) => void
+
+// Barramento de eventos usado pelas rotas que transmitem atualizações ao vivo (Server-Sent Events). As rotas dependem apenas desta interface, assim a
+// implementação em memória pode ser trocada por outra (ex.: LISTEN/NOTIFY do PostgreSQL, para vários processos da aplicação)
+export interface EventBus {
+  publish(sessionId: string, event: Omit<BusEvent, 'id'>): Promise<BusEvent>
+  // Devolve a função que cancela a inscrição
+  subscribe(sessionId: string, listener: BusEventListener): () => void
+  // Eventos da sessão publicados depois do evento informado, ainda guardados pelo barramento
+  getEventsAfter(sessionId: string, lastEventId: string): Promise<BusEvent[]>
+}
+
+const MAX_STORED_EVENTS = 100 // quantidade máxima de eventos guardados por sessão
+const STORED_EVENTS_TTL = 5 * 60 * 1000 // tempo (em milissegundos) durante o qual os eventos de uma sessão são guardados após o último evento dela
+
+interface StoredEvent extends BusEvent {
+  publishedAt: number
+}
+
+// Implementação em memória: funciona apenas quando a aplicação é executada em um único processo
+export class InMemoryEventBus implements EventBus {
+  private emitter = new EventEmitter()
+  private lastEventId = 0
+  // A ordem de inserção do Map é mantida da sessão com o evento mais antigo para a sessão com o evento mais recente
+  private storedEvents = new Map<string, StoredEvent[]>()
+
+  constructor() {
+    this.emitter.setMaxListeners(0) // cada conexão aberta adiciona um listener, então não há um limite
+  }
+
+  async publish(sessionId: string, { type, data }: Omit<BusEvent, 'id'>) {
+    const now = Date.now()
+
+    this.lastEventId += 1
+
+    const event = { id: String(this.lastEventId), type, data }
+    const events = [
+      ...(this.storedEvents.get(sessionId) ?? []),
+      { ...event, publishedAt: now },
+    ].slice(-MAX_STORED_EVENTS)
+
+    // Remove e insere novamente para mover a sessão para o fim do Map
+    this.storedEvents.delete(sessionId)
+    this.storedEvents.set(sessionId, events)
+    this.removeExpiredEvents(now)
+
+    this.emitter.emit(sessionId, event)
+
+    return event
+  }
+
+  subscribe(sessionId: string, listener: BusEventListener) {
+    this.emitter.on(sessionId, listener)
+
+    return () => {
+      this.emitter.off(sessionId, listener)
+    }
+  }
+
+  async getEventsAfter(sessionId: string, lastEventId: string) {
+    const events = this.storedEvents.get(sessionId) ?? []
+
+    return events
+      .filter((event) => Number(event.id) > Number(lastEventId))
+      .map(({ id, type, data }) => ({ id, type, data }))
+  }
+
+  // Descarta os eventos das sessões sem eventos recentes. Como o Map está ordenado pelo último evento, paramos na primeira sessão ainda válida
+  private removeExpiredEvents(now: number) {
+    for (const [sessionId, events] of this.storedEvents) {
+      if (now - events[events.length - 1].publishedAt < STORED_EVENTS_TTL) {
+        break
+      }
+
+      this.storedEvents.delete(sessionId)
+    }
+  }
+}
+
+// Instância usada pela aplicação. Para usar vários processos (ex.: com DATABASE_CLIENT=pg), basta trocá-la por outra implementação de EventBus
+export const eventBus: EventBus = new InMemoryEventBus()
+
+/*
+Observações:
+- Os eventos guardados permitem que um cliente que perdeu a conexão receba, ao reconectar, os eventos que foram publicados enquanto ele estava
+desconectado. Eventos mais antigos que o limite (MAX_STORED_EVENTS ou STORED_EVENTS_TTL) não são reenviados.
+*/
@@ -0,0 +1,68 @@
+import type { Knex } from 'knex'
+import { UnprocessableEntityError } from './errors'
+import { convertMinorUnits } from './money'
+
+// Soma dos valores de uma moeda em um dia (no formato YYYY-MM-DD), como devolvida pelas consultas agrupadas por moeda e por dia
+export interface AmountByCurrencyAndDay {
+  currency: string
+  day: string
+  amount: number
+}
+
+// Sem a cotação, o valor não pode ser convertido. O tratador de erros global responde com o status 422
+export class MissingExchangeRateError extends UnprocessableEntityError {
+  constructor(currency: string, targetCurrency: string, day: string) {
+    super(
+      `Não há cotação de ${currency} para ${targetCurrency} em ${day} ou antes desta data.`,
+    )
+  }
+}
+
+// Carrega as cotações da sessão que envolvem a moeda de destino e devolve uma função que converte as somas de cada moeda e dia para ela.
+// A cotação usada é a mais recente com data igual ou anterior ao dia da soma. Uma cotação no sentido inverso (da moeda de destino para a moeda da soma)
+// também serve: basta usar o inverso do seu valor
+export async function createCurrencyConverter(
+  db: Knex,
+  sessionId: string,
+  targetCurrency: string,
+) {
+  const rates = await db('exchange_rates')
+    .where('session_id', sessionId)
+    .andWhere((query) => {
+      query
+        .where('base_currency', targetCurrency)
+        .orWhere('quote_currency', targetCurrency)
+    })
+    .orderBy('date', 'desc')
+    .select()
+
+  return ({ currency, day, amount }: AmountByCurrencyAndDay) => {
+    if (currency === targetCurrency) {
+      return amount
+    }
+
+    const rate = rates.find(
+      (rate) =>
+        rate.date <= day &&
+        (rate.base_currency === currency || rate.quote_currency === currency),
+    )
+
+    if (!rate) {
+      throw new MissingExchangeRateError(currency, targetCurrency, day)
+    }
+
+    return convertMinorUnits(
+      amount,
+      currency,
+      targetCurrency,
+      rate.base_currency === currency ? rate.rate : 1 / rate.rate,
+    )
+  }
+}
+
+/*
+Observações:
+- Cada soma (de uma moeda em um dia) é convertida e arredondada separadamente, e só depois os resultados, já inteiros, são somados. Assim o total não depende
+da ordem das transações e continua exato.
+- As datas das cotações são comparadas como texto (YYYY-MM-DD), o que equivale a compará-las cronologicamente.
+*/
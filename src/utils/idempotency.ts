@@ -0,0 +1,123 @@
+import { createHash } from 'node:crypto'
+import type { FastifyReply } from 'fastify'
+import type { Knex } from 'knex'
+import { z } from 'zod'
+import { toDatabaseDate } from '../database'
+import { env } from '../env'
+import { UnprocessableEntityError } from './errors'
+
+// Esquema Zod do cabeçalho Idempotency-Key. O cabeçalho é opcional: sem ele, a requisição é processada normalmente
+export const idempotencyKeySchema = z.string().trim().min(1).max(255).optional()
+
+// Serializa o valor com as propriedades dos objetos em ordem alfabética, para que a ordem em que o cliente envia as propriedades não mude o hash
+function canonicalJson(value: unknown): string {
+  if (Array.isArray(value)) {
+    return `[${value.map(canonicalJson).join(',')}]`
+  }
+
+  if (typeof value === 'object' && value !== null) {
+    return `{${Object.keys(value)
+      .sort()
+      .map(
+        (key) =>
+          `${JSON.stringify(key)}:${canonicalJson(
+            (value as Record<string, unknown>)[key],
+          )}`,
+      )
+      .join(',')}}`
+  }
+
+  return JSON.stringify(value) ?? 'null'
+}
+
+export function hashRequestBody(body: unknown) {
+  return createHash('sha256').update(canonicalJson(body)).digest('hex')
+}
+
+// Busca a resposta guardada para a chave da sessão. Uma chave expirada é removida e tratada como se nunca tivesse sido usada
+export async function findIdempotencyKey(
+  db: Knex,
+  sessionId: string,
+  key: string,
+) {
+  await db('idempotency_keys')
+    .where({ session_id: sessionId, key })
+    .where('expires_at', '<=', toDatabaseDate(new Date()))
+    .delete()
+
+  const idempotencyKey = await db('idempotency_keys')
+    .where({ session_id: sessionId, key })
+    .first()
+
+  if (!idempotencyKey) {
+    return undefined
+  }
+
+  return {
+    requestHash: idempotencyKey.request_hash,
+    statusCode: idempotencyKey.status_code,
+    body: JSON.parse(idempotencyKey.response_body),
+  }
+}
+
+type StoredResponse = NonNullable<
+  Awaited<ReturnType<typeof findIdempotencyKey>>
+>
+
+// Repete a resposta guardada, desde que o corpo da nova requisição seja o mesmo da original
+export function replayStoredResponse(
+  response: FastifyReply,
+  stored: StoredResponse,
+  requestHash: string,
+) {
+  if (stored.requestHash !== requestHash) {
+    throw new UnprocessableEntityError(
+      'A chave de idempotência já foi usada com outro corpo de requisição.',
+    )
+  }
+
+  return response
+    .status(stored.statusCode)
+    .header('Idempotent-Replayed', 'true')
+    .send(stored.body)
+}
+
+interface SaveIdempotencyKeyParams {
+  sessionId: string
+  key: string
+  requestHash: string
+  statusCode: number
+  body: unknown
+}
+
+// Guarda a resposta enviada para a chave. Deve ser chamada com a mesma transação do banco de dados que gravou o recurso, para que os dois sejam
+// gravados juntos. As chaves expiradas de todas as sessões são removidas aqui, aproveitando a escrita
+export async function saveIdempotencyKey(
+  db: Knex,
+  { sessionId, key, requestHash, statusCode, body }: SaveIdempotencyKeyParams,
+) {
+  const now = new Date()
+
+  await db('idempotency_keys')
+    .where('expires_at', '<=', toDatabaseDate(now))
+    .delete()
+
+  await db('idempotency_keys').insert({
+    session_id: sessionId,
+    key,
+    request_hash: requestHash,
+    status_code: statusCode,
+    response_body: JSON.stringify(body),
+    expires_at: toDatabaseDate(
+      new Date(now.getTime() + env.IDEMPOTENCY_KEY_TTL * 1000),
+    ),
+  })
+}
+
+/*
+Observações:
+- Apenas as respostas de sucesso são guardadas. Se a requisição original falhar (ex.: corpo inválido), a repetição com a mesma chave é processada
+novamente.
+- As chaves pertencem à sessão: um cliente que perdeu o cookie da sessão (por exemplo, porque a primeira resposta nunca chegou) recebe uma nova sessão,
+e nela a chave ainda não foi usada.
+*/
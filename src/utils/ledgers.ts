@@ -0,0 +1,61 @@
+import { randomUUID } from 'node:crypto'
+import type { Knex } from 'knex'
+
+export const ledgerRoles = ['owner', 'editor', 'viewer'] as const
+
+// Papéis que podem ser concedidos por um convite. O livro tem um único dono: quem o criou
+export const inviteRoles = ['editor', 'viewer'] as const
+
+const PERSONAL_LEDGER_NAME = 'Pessoal'
+
+// Devolve o livro pessoal da sessão (o livro cujos dados usam o próprio session_id da sessão). Se ele ainda não existir, é criado com a sessão como dona
+export async function getPersonalLedger(db: Knex, sessionId: string) {
+  const ledger = await db('ledgers').where('session_id', sessionId).first()
+
+  if (ledger) {
+    return ledger
+  }
+
+  const personalLedger = {
+    id: randomUUID(),
+    session_id: sessionId,
+    name: PERSONAL_LEDGER_NAME,
+  }
+
+  await db.transaction(async (trx) => {
+    await trx('ledgers').insert(personalLedger)
+
+    await trx('ledger_members').insert({
+      id: randomUUID(),
+      ledger_id: personalLedger.id,
+      session_id: sessionId,
+      role: 'owner',
+    })
+  })
+
+  return personalLedger
+}
+
+// Busca a participação da sessão no livro, junto com o session_id dos dados do livro
+export async function findLedgerMembership(
+  db: Knex,
+  ledgerId: string,
+  sessionId: string,
+) {
+  return db('ledger_members')
+    .join('ledgers', 'ledgers.id', 'ledger_members.ledger_id')
+    .where('ledger_members.ledger_id', ledgerId)
+    .where('ledger_members.session_id', sessionId)
+    .select(
+      'ledger_members.id',
+      'ledger_members.role',
+      'ledgers.session_id as ledger_session_id',
+    )
+    .first()
+}
+
+/*
+Observações:
+- O livro pessoal é criado apenas quando é necessário (por exemplo, na listagem dos livros ou na criação de um convite). Até lá, os dados da sessão já
+pertencem a ele, pois usam o mesmo session_id.
+*/
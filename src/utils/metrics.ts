@@ -0,0 +1,42 @@
+import {
+  Counter,
+  Histogram,
+  Registry,
+  collectDefaultMetrics,
+} from 'prom-client'
+
+// Registro com as métricas expostas pela rota /metrics, no formato de texto do Prometheus
+export const metricsRegistry = new Registry()
+
+// Métricas do próprio processo do Node.js (uso de CPU e memória, event loop, coletor de lixo...)
+collectDefaultMetrics({ register: metricsRegistry })
+
+// O rótulo route é o caminho da rota com os parâmetros (ex.: /transactions/:id), e não a URL acessada, para que cada rota gere uma única série
+const httpLabelNames = ['method', 'route', 'status_code'] as const
+
+export const httpRequestsCounter = new Counter({
+  name: 'http_requests_total',
+  help: 'Quantidade de requisições HTTP respondidas',
+  labelNames: httpLabelNames,
+  registers: [metricsRegistry],
+})
+
+export const httpRequestDurationHistogram = new Histogram({
+  name: 'http_request_duration_seconds',
+  help: 'Tempo (em segundos) de resposta das requisições HTTP',
+  labelNames: httpLabelNames,
+  buckets: [0.005, 0.01, 0.025, 0.05, 0.1, 0.25, 0.5, 1, 2.5, 5, 10],
+  registers: [metricsRegistry],
+})
+
+export const transactionsCreatedCounter = new Counter({
+  name: 'transactions_created_total',
+  help: 'Quantidade de transações criadas (pelas rotas, pela importação, pelas transferências e pelas transações recorrentes)',
+  registers: [metricsRegistry],
+})
+
+/*
+Observações:
+- As métricas ficam na memória do processo e recomeçam do zero quando a aplicação é reiniciada. O Prometheus lida com isso ao calcular as taxas (rate),
+pois os contadores apenas crescem enquanto o processo está no ar.
+*/
@@ -0,0 +1,74 @@
+import { z } from 'zod'
+import { env } from '../env'
+
+// Códigos ISO 4217 conhecidos pelo Node (Intl), usados para validar as moedas recebidas.
+// Intl.supportedValuesOf existe desde o Node 18, mas a sua tipagem só faz parte da lib ES2022 (o tsconfig usa ES2020)
+const supportedCurrencies = new Set(
+  (
+    Intl as unknown as { supportedValuesOf(key: 'currency'): string[] }
+  ).supportedValuesOf('currency'),
+)
+
+export const currencySchema = z
+  .string()
+  .trim()
+  .toUpperCase()
+  .refine((currency) => supportedCurrencies.has(currency), {
+    message: 'Moeda inválida. Use um código ISO 4217 (ex.: BRL, USD).',
+  })
+
+// Esquema Zod dos valores monetários recebidos pela API: inteiros em unidades menores da moeda (ex.: centavos). R$ 12,34 é enviado como 1234
+export const minorUnitsSchema = z
+  .number()
+  .int(
+    'O valor deve ser um número inteiro de unidades menores da moeda (ex.: centavos).',
+  )
+
+export const DEFAULT_CURRENCY = env.DEFAULT_CURRENCY
+
+// Quantidade de casas decimais da moeda (ex.: 2 para BRL, 0 para JPY, 3 para BHD)
+export function currencyExponent(currency: string) {
+  return new Intl.NumberFormat('en', {
+    style: 'currency',
+    currency,
+  }).resolvedOptions().maximumFractionDigits as number
+}
+
+// Converte um valor decimal (unidades maiores, como nos extratos bancários) para unidades menores: 12.34 BRL => 1234
+export function toMinorUnits(amount: number, currency: string) {
+  return Math.round(amount * 10 ** currencyExponent(currency))
+}
+
+// Converte um valor em unidades menores para o texto decimal com as casas da moeda: 1234 BRL => '12.34'
+export function formatMinorUnits(amount: number, currency: string) {
+  const exponent = currencyExponent(currency)
+
+  const sign = amount < 0 ? '-' : ''
+  const digits = Math.abs(amount)
+    .toString()
+    .padStart(exponent + 1, '0')
+
+  return exponent === 0
+    ? `${sign}${digits}`
+    : `${sign}${digits.slice(0, -exponent)}.${digits.slice(-exponent)}`
+}
+
+// Converte um valor em unidades menores de uma moeda para outra, usando a cotação (quantas unidades maiores da moeda de destino valem uma unidade
+// maior da moeda de origem). O arredondamento é feito uma única vez, no final
+export function convertMinorUnits(
+  amount: number,
+  from: string,
+  to: string,
+  rate: number,
+) {
+  return Math.round(
+    amount * rate * 10 ** (currencyExponent(to) - currencyExponent(from)),
+  )
+}
+
+/*
+Observações:
+- Os valores monetários são armazenados como inteiros em unidades menores da moeda (ex.: centavos) porque números de ponto flutuante não representam 
+exatamente a maioria dos valores decimais (0.1 + 0.2 !== 0.3 em JavaScript). Somando inteiros, o resultado é sempre exato.
+- formatMinorUnits monta o texto a partir dos dígitos, sem dividir o valor, para que a formatação também não sofra com o ponto flutuante.
+*/
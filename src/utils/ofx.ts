@@ -0,0 +1,161 @@
+// Transação de um extrato bancário no formato OFX (Open Financial Exchange)
+export interface OfxTransaction {
+  fitid: string | null // identificador único da transação, atribuído pelo banco
+  date: Date | null
+  amount: number | null // em unidades maiores da moeda, como no arquivo (ex.: -50.00)
+  title: string | null
+  currency: string | null // moeda do extrato (tag CURDEF)
+}
+
+// Lê o valor de uma tag dentro de um bloco OFX. No OFX 1.x (SGML), as tags de valores não são fechadas, ex.: <TRNAMT>-50.00
+function readTag(block: string, tag: string) {
+  const match = new RegExp(`<${tag}>([^<\\r\\n]*)`, 'i').exec(block)
+
+  const value = match?.[1].trim()
+
+  return value ? decodeEntities(value) : null
+}
+
+function decodeEntities(value: string) {
+  return value
+    .replace(/&lt;/g, '<')
+    .replace(/&gt;/g, '>')
+    .replace(/&quot;/g, '"')
+    .replace(/&apos;/g, "'")
+    .replace(/&amp;/g, '&')
+}
+
+// Converte uma data OFX (YYYYMMDD[HHMMSS[.XXX]][[±HH[:MM]:NOME]]) para Date. Sem fuso horário, a data é considerada em UTC
+export function parseOfxDate(value: string) {
+  const match =
+    /^(\d{4})(\d{2})(\d{2})(?:(\d{2})(\d{2})(\d{2})?(?:\.\d+)?)?(?:\[([+-]?\d+(?:\.\d+)?)(?::[^\]]*)?\])?$/.exec(
+      value,
+    )
+
+  if (!match) {
+    return null
+  }
+
+  const [, year, month, day, hours = '0', minutes = '0', seconds = '0', tz] =
+    match
+
+  const offsetHours = tz ? Number(tz) : 0
+
+  const date = new Date(
+    Date.UTC(
+      Number(year),
+      Number(month) - 1,
+      Number(day),
+      Number(hours),
+      Number(minutes),
+      Number(seconds),
+    ) -
+      offsetHours * 60 * 60 * 1000,
+  )
+
+  return Number.isNaN(date.getTime()) ? null : date
+}
+
+// Extrai as transações (blocos <STMTTRN>) de um extrato OFX. Os valores que não puderem ser lidos ficam nulos, para que a validação aponte o erro
+export function parseOfx(text: string): OfxTransaction[] {
+  const blocks = text.match(/<STMTTRN>[\s\S]*?<\/STMTTRN>/gi) ?? []
+  const currency = readTag(text, 'CURDEF')?.toUpperCase() ?? null
+
+  return blocks.map((block) => {
+    const rawDate = readTag(block, 'DTPOSTED')
+    const rawAmount = readTag(block, 'TRNAMT')
+
+    // Alguns bancos usam vírgula como separador decimal no TRNAMT
+    const amount = rawAmount ? Number(rawAmount.replace(',', '.')) : NaN
+
+    return {
+      fitid: readTag(block, 'FITID'),
+      date: rawDate ? parseOfxDate(rawDate) : null,
+      amount: Number.isNaN(amount) ? null : amount,
+      title: readTag(block, 'NAME') ?? readTag(block, 'MEMO'),
+      currency,
+    }
+  })
+}
+
+function encodeEntities(value: string) {
+  return value
+    .replace(/&/g, '&amp;')
+    .replace(/</g, '&lt;')
+    .replace(/>/g, '&gt;')
+}
+
+// Converte uma data para o formato OFX, sempre em UTC: YYYYMMDDHHMMSS[0:GMT]
+export function formatOfxDate(date: Date) {
+  return `${date.toISOString().slice(0, 19).replace(/[-T:]/g, '')}[0:GMT]`
+}
+
+// Cabeçalho de um extrato OFX 1.x até a abertura da lista de transações
+export function ofxHeader(currency = 'BRL') {
+  const now = formatOfxDate(new Date())
+
+  return [
+    'OFXHEADER:100',
+    'DATA:OFXSGML',
+    'VERSION:102',
+    'SECURITY:NONE',
+    'ENCODING:UTF-8',
+    'CHARSET:NONE',
+    'COMPRESSION:NONE',
+    'OLDFILEUID:NONE',
+    'NEWFILEUID:NONE',
+    '',
+    '<OFX>',
+    '<SIGNONMSGSRSV1><SONRS>',
+    '<STATUS><CODE>0<SEVERITY>INFO</STATUS>',
+    `<DTSERVER>${now}`,
+    '<LANGUAGE>POR',
+    '</SONRS></SIGNONMSGSRSV1>',
+    '<BANKMSGSRSV1><STMTTRNRS>',
+    '<TRNUID>1',
+    '<STATUS><CODE>0<SEVERITY>INFO</STATUS>',
+    '<STMTRS>',
+    `<CURDEF>${currency}`,
+    '<BANKTRANLIST>',
+    '',
+  ].join('\r\n')
+}
+
+// O valor (amount) já deve estar formatado em unidades maiores da moeda, com as suas casas decimais (ex.: '-50.00')
+export function ofxTransaction({
+  fitid,
+  date,
+  amount,
+  title,
+}: {
+  fitid: string
+  date: Date
+  amount: string
+  title: string
+}) {
+  return [
+    '<STMTTRN>',
+    `<TRNTYPE>${amount.startsWith('-') ? 'DEBIT' : 'CREDIT'}`,
+    `<DTPOSTED>${formatOfxDate(date)}`,
+    `<TRNAMT>${amount}`,
+    `<FITID>${encodeEntities(fitid)}`,
+    `<NAME>${encodeEntities(title)}`,
+    '</STMTTRN>',
+    '',
+  ].join('\r\n')
+}
+
+export function ofxFooter() {
+  return [
+    '</BANKTRANLIST>',
+    '</STMTRS></STMTTRNRS></BANKMSGSRSV1>',
+    '</OFX>',
+    '',
+  ].join('\r\n')
+}
+
+/*
+Observações:
+- O OFX é o formato de extrato mais comum entre os bancos. As versões 1.x usam SGML (tags de valores sem fechamento) e as versões 2.x usam XML. A leitura 
+acima funciona para as duas, pois só depende da abertura das tags.
+*/
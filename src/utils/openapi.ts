@@ -0,0 +1,50 @@
+import type { SwaggerOptions } from '@fastify/swagger'
+import { jsonSchemaTransform } from 'fastify-type-provider-zod'
+
+// Opções do plugin @fastify/swagger, que monta o documento OpenAPI a partir das rotas registradas. O jsonSchemaTransform converte os esquemas Zod das
+// rotas em JSON Schema, o formato usado pelo OpenAPI
+export const openapiOptions: SwaggerOptions = {
+  openapi: {
+    info: {
+      title: 'API de transações',
+      description:
+        'API para controle de transações financeiras. Os valores são inteiros, em unidades menores da moeda (centavos). ' +
+        'Para acessar um livro compartilhado, envie o id do livro no cabeçalho Ledger-Id.',
+      version: '1.0.0',
+    },
+    components: {
+      // O cliente é identificado por cookies: sessionId (sessão anônima, criada na primeira transação) ou token (usuário autenticado com POST /auth/login)
+      securitySchemes: {
+        sessionCookie: {
+          type: 'apiKey',
+          in: 'cookie',
+          name: 'sessionId',
+          description:
+            'Sessão anônima. O cookie é enviado pela API na resposta da primeira criação de uma transação (ou de outro recurso) sem sessão.',
+        },
+        tokenCookie: {
+          type: 'apiKey',
+          in: 'cookie',
+          name: 'token',
+          description:
+            'Usuário autenticado. O cookie é enviado pela API na resposta de POST /auth/login.',
+        },
+      },
+    },
+  },
+  transform: jsonSchemaTransform,
+}
+
+// Segurança das rotas que precisam identificar o cliente: basta um dos dois cookies (cada item do array é uma alternativa)
+export const sessionSecurity: { [securityScheme: string]: string[] }[] = [
+  { sessionCookie: [] },
+  { tokenCookie: [] },
+]
+
+/*
+Observações:
+- O documento gerado segue a especificação OpenAPI 3. Ele é servido em /openapi.json, e a interface de documentação (Swagger UI) em /docs. Veja
+src/routes/docs.ts.
+- Apenas as rotas com esquemas nas opções (schema) têm os parâmetros, o corpo e as respostas descritos no documento. As demais aparecem apenas com o método
+e o caminho.
+*/
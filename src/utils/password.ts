@@ -0,0 +1,38 @@
+import { randomBytes, scrypt, timingSafeEqual } from 'node:crypto'
+import { promisify } from 'node:util'
+
+const scryptAsync = promisify(scrypt) as (
+  password: string,
+  salt: string,
+  keyLength: number,
+) => Promise<Buffer>
+
+const KEY_LENGTH = 64
+
+// Gera o hash da senha com o algoritmo scrypt e um salt aleatório. O resultado guarda o salt junto com o hash no formato salt:hash
+export async function hashPassword(password: string) {
+  const salt = randomBytes(16).toString('hex')
+  const hash = await scryptAsync(password, salt, KEY_LENGTH)
+
+  return `${salt}:${hash.toString('hex')}`
+}
+
+export async function verifyPassword(password: string, passwordHash: string) {
+  const [salt, hash] = passwordHash.split(':')
+
+  const expectedHash = Buffer.from(hash, 'hex')
+  const actualHash = await scryptAsync(password, salt, KEY_LENGTH)
+
+  // timingSafeEqual compara os buffers em tempo constante, evitando que o tempo de resposta revele quantos bytes do hash estão corretos
+  return (
+    expectedHash.length === actualHash.length &&
+    timingSafeEqual(expectedHash, actualHash)
+  )
+}
+
+/*
+Observações:
+- O scrypt é um algoritmo de derivação de chaves propositalmente lento e que consome bastante memória, o que dificulta ataques de força bruta. Ele faz parte 
+do módulo crypto do Node, então não precisamos de nenhuma dependência extra.
+- O salt garante que duas senhas iguais gerem hashes diferentes.
+*/
@@ -0,0 +1,281 @@
+import { z } from 'zod'
+
+const DAY = 24 * 60 * 60 * 1000
+
+export const weekdayNames = ['SU', 'MO', 'TU', 'WE', 'TH', 'FR', 'SA'] as const
+
+// Agendamento de uma transação recorrente, já normalizado. Os agendamentos em RRULE são convertidos para este formato
+export interface Schedule {
+  startDate: Date
+  frequency: 'daily' | 'weekly' | 'monthly'
+  interval: number // a cada quantos dias, semanas ou meses
+  weekdays: number[] | null // dias da semana (0 = domingo) das recorrências semanais
+  dayOfMonth: number | null // dia do mês das recorrências mensais
+  endDate: Date | null
+  count: number | null // quantidade total de ocorrências
+}
+
+export class RruleError extends Error {}
+
+// Lê o subconjunto suportado da RRULE (RFC 5545): FREQ (DAILY, WEEKLY ou MONTHLY), INTERVAL, BYDAY (sem posição, ex.: MO,WE), BYMONTHDAY (um único
+// dia), COUNT e UNTIL. Qualquer outra propriedade lança RruleError
+export function parseRrule(rrule: string) {
+  const rule: Partial<Omit<Schedule, 'startDate'>> = {}
+
+  const properties = rrule.replace(/^RRULE:/i, '').split(';')
+
+  for (const property of properties) {
+    const [name, value = ''] = property.split('=')
+
+    switch (name.toUpperCase()) {
+      case 'FREQ': {
+        const frequency = value.toLowerCase()
+
+        if (
+          frequency !== 'daily' &&
+          frequency !== 'weekly' &&
+          frequency !== 'monthly'
+        ) {
+          throw new RruleError(`FREQ=${value} não é suportado.`)
+        }
+
+        rule.frequency = frequency
+        break
+      }
+      case 'INTERVAL':
+        rule.interval = parsePositiveInteger(name, value)
+        break
+      case 'COUNT':
+        rule.count = parsePositiveInteger(name, value)
+        break
+      case 'BYMONTHDAY': {
+        const dayOfMonth = parsePositiveInteger(name, value)
+
+        if (dayOfMonth > 31) {
+          throw new RruleError(`BYMONTHDAY=${value} é inválido.`)
+        }
+
+        rule.dayOfMonth = dayOfMonth
+        break
+      }
+      case 'BYDAY':
+        rule.weekdays = value.split(',').map((weekday) => {
+          const index = weekdayNames.indexOf(
+            weekday.toUpperCase() as (typeof weekdayNames)[number],
+          )
+
+          if (index === -1) {
+            throw new RruleError(`BYDAY=${value} não é suportado.`)
+          }
+
+          return index
+        })
+        break
+      case 'UNTIL': {
+        const match =
+          /^(\d{4})(\d{2})(\d{2})(?:T(\d{2})(\d{2})(\d{2})Z?)?$/.exec(value)
+
+        if (!match) {
+          throw new RruleError(`UNTIL=${value} é inválido.`)
+        }
+
+        const [
+          ,
+          year,
+          month,
+          day,
+          hours = '23',
+          minutes = '59',
+          seconds = '59',
+        ] = match
+
+        rule.endDate = new Date(
+          Date.UTC(
+            Number(year),
+            Number(month) - 1,
+            Number(day),
+            Number(hours),
+            Number(minutes),
+            Number(seconds),
+          ),
+        )
+        break
+      }
+      default:
+        throw new RruleError(`A propriedade ${name} não é suportada.`)
+    }
+  }
+
+  if (!rule.frequency) {
+    throw new RruleError('A propriedade FREQ é obrigatória.')
+  }
+
+  return { ...rule, frequency: rule.frequency }
+}
+
+function parsePositiveInteger(name: string, value: string) {
+  const number = Number(value)
+
+  if (!Number.isInteger(number) || number < 1) {
+    throw new RruleError(`${name}=${value} é inválido.`)
+  }
+
+  return number
+}
+
+// Esquema Zod do agendamento recebido pela API. Uma RRULE inválida gera um erro de validação no campo rrule
+export const scheduleSchema = z
+  .discriminatedUnion('frequency', [
+    z.object({
+      frequency: z.literal('daily'),
+      interval: z.number().int().positive().default(1),
+    }),
+    z.object({
+      frequency: z.literal('weekly'),
+      interval: z.number().int().positive().default(1),
+      weekdays: z.array(z.enum(weekdayNames)).nonempty().optional(), // sem weekdays, repete no mesmo dia da semana da data inicial
+    }),
+    z.object({
+      frequency: z.literal('monthly'),
+      interval: z.number().int().positive().default(1),
+      dayOfMonth: z.number().int().min(1).max(31).optional(), // sem dayOfMonth, repete no mesmo dia do mês da data inicial
+    }),
+    z.object({
+      frequency: z.literal('rrule'),
+      rrule: z.string(),
+    }),
+  ])
+  .transform((schedule, ctx) => {
+    if (schedule.frequency !== 'rrule') {
+      return {
+        frequency: schedule.frequency,
+        interval: schedule.interval,
+        weekdays:
+          'weekdays' in schedule && schedule.weekdays
+            ? schedule.weekdays.map((weekday) => weekdayNames.indexOf(weekday))
+            : null,
+        dayOfMonth:
+          'dayOfMonth' in schedule ? schedule.dayOfMonth ?? null : null,
+        rrule: null,
+        endDate: null,
+        count: null,
+      }
+    }
+
+    try {
+      const rule = parseRrule(schedule.rrule)
+
+      return {
+        frequency: rule.frequency,
+        interval: rule.interval ?? 1,
+        weekdays: rule.weekdays ?? null,
+        dayOfMonth: rule.dayOfMonth ?? null,
+        rrule: schedule.rrule,
+        endDate: rule.endDate ?? null,
+        count: rule.count ?? null,
+      }
+    } catch (error) {
+      if (error instanceof RruleError) {
+        ctx.addIssue({
+          code: z.ZodIssueCode.custom,
+          message: error.message,
+          path: ['rrule'],
+        })
+
+        return z.NEVER
+      }
+
+      throw error
+    }
+  })
+
+function daysInMonth(year: number, month: number) {
+  return new Date(Date.UTC(year, month + 1, 0)).getUTCDate()
+}
+
+// Gera as datas das ocorrências em ordem, a partir da data inicial, sem considerar a data final nem a quantidade de ocorrências.
+// Todas as ocorrências têm o mesmo horário (UTC) da data inicial
+function* generateOccurrences(schedule: Schedule) {
+  const { startDate, frequency, interval } = schedule
+
+  if (frequency === 'daily') {
+    for (let index = 0; ; index++) {
+      yield new Date(startDate.getTime() + index * interval * DAY)
+    }
+  }
+
+  if (frequency === 'weekly') {
+    const weekdays = schedule.weekdays ?? [startDate.getUTCDay()]
+
+    // As semanas são contadas a partir do domingo da semana da data inicial
+    const firstWeekStart = startDate.getTime() - startDate.getUTCDay() * DAY
+
+    for (let day = startDate.getTime(); ; day += DAY) {
+      const date = new Date(day)
+      const week = Math.floor((day - firstWeekStart) / (7 * DAY))
+
+      if (week % interval === 0 && weekdays.includes(date.getUTCDay())) {
+        yield date
+      }
+    }
+  }
+
+  // Mensal: nos meses em que o dia não existe (ex.: dia 31 em abril), a ocorrência acontece no último dia do mês
+  const dayOfMonth = schedule.dayOfMonth ?? startDate.getUTCDate()
+
+  for (let index = 0; ; index++) {
+    const year = startDate.getUTCFullYear()
+    const month = startDate.getUTCMonth() + index * interval
+
+    const date = new Date(
+      Date.UTC(
+        year,
+        month,
+        Math.min(dayOfMonth, daysInMonth(year, month)),
+        startDate.getUTCHours(),
+        startDate.getUTCMinutes(),
+        startDate.getUTCSeconds(),
+      ),
+    )
+
+    if (date >= startDate) {
+      yield date
+    }
+  }
+}
+
+interface ListOccurrencesOptions {
+  after?: Date | null // apenas as ocorrências posteriores a esta data
+  until?: Date // apenas as ocorrências até esta data (inclusive)
+  limit?: number // quantidade máxima de ocorrências devolvidas
+}
+
+// Lista as ocorrências de um agendamento, respeitando a data final e a quantidade total de ocorrências.
+// Como um agendamento pode não ter fim, quem chama deve informar until ou limit
+export function listOccurrences(
+  schedule: Schedule,
+  { after, until, limit = Infinity }: ListOccurrencesOptions,
+) {
+  const occurrences: Date[] = []
+
+  let position = 0
+
+  for (const date of generateOccurrences(schedule)) {
+    position++
+
+    if (
+      (schedule.count !== null && position > schedule.count) ||
+      (schedule.endDate && date > schedule.endDate) ||
+      (until && date > until) ||
+      occurrences.length >= limit
+    ) {
+      break
+    }
+
+    if (!after || date > after) {
+      occurrences.push(date)
+    }
+  }
+
+  return occurrences
+}
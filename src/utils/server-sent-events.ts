@@ -0,0 +1,21 @@
+// Intervalo (em milissegundos) entre os comentários enviados para manter a conexão aberta quando não há eventos (proxies costumam fechar conexões ociosas)
+export const HEARTBEAT_INTERVAL = 15 * 1000
+
+export interface ServerSentEvent {
+  id?: string // sem id, o cliente mantém o id do último evento recebido
+  type: string
+  data: unknown
+}
+
+// Formata um evento no formato text/event-stream: um campo por linha e uma linha em branco ao final do evento
+export function formatServerSentEvent({ id, type, data }: ServerSentEvent) {
+  return `${id ? `id: ${id}\n` : ''}event: ${type}\ndata: ${JSON.stringify(
+    data,
+  )}\n\n`
+}
+
+/*
+Observações:
+- O JSON.stringify não gera quebras de linha, então o campo data sempre ocupa uma única linha, como o formato exige.
+- O EventSource do navegador reconecta automaticamente quando a conexão cai e envia o id do último evento recebido no cabeçalho Last-Event-ID.
+*/
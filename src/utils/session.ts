@@ -0,0 +1,31 @@
+import { randomUUID } from 'node:crypto'
+import type { FastifyReply, FastifyRequest } from 'fastify'
+
+// Devolve o sessionId do livro acessado pelo cliente. Se ele ainda não existir (cliente anônimo e sem cookie), cria um novo e o envia ao cliente no cookie sessionId
+export function ensureSessionId(
+  request: FastifyRequest,
+  response: FastifyReply,
+) {
+  if (!request.sessionId) {
+    request.sessionId = randomUUID()
+    request.personalSessionId = request.sessionId // a nova sessão acessa o seu livro pessoal, do qual é a dona
+    request.ledgerRole = 'owner'
+
+    response.setCookie('sessionId', request.sessionId, {
+      path: '/', // os cookies podem ser categorizados de acordo com as rotas da aplicação. No caso, qualquer rota da aplicação poderá acessar esse cookie
+      maxAge: 60 * 60 * 24 * 7, // o cookie irá expirar em 7 dias
+    })
+  }
+
+  return request.sessionId
+}
+
+// O session_id dá acesso aos dados da sessão: o de uma sessão anônima é o próprio valor do cookie sessionId, e o de um livro compartilhado dá acesso ao
+// livro sem ser membro dele. Por isso, ele nunca é enviado ao cliente e precisa ser removido dos registros devolvidos nas respostas
+export function omitSessionId<T extends object>(
+  record: T,
+): Omit<T, 'session_id'> {
+  return Object.fromEntries(
+    Object.entries(record).filter(([key]) => key !== 'session_id'),
+  ) as Omit<T, 'session_id'>
+}
@@ -0,0 +1,260 @@
+import { z } from 'zod'
+import { parseCsv } from './csv'
+import { BadRequestError } from './errors'
+import { currencySchema, toMinorUnits } from './money'
+import { parseOfx } from './ofx'
+
+// Esquema Zod do mapeamento de colunas de um arquivo CSV: cada propriedade indica o nome da coluna (no cabeçalho) que contém aquela informação
+export const csvMappingSchema = z
+  .object({
+    date: z.string().default('date'),
+    title: z.string().default('title'),
+    amount: z.string().default('amount'),
+    type: z.string().optional(), // sem a coluna de tipo, o sinal do valor define se é crédito ou débito
+    currency: z.string().optional(), // por padrão, a coluna "currency" (se existir no cabeçalho). Sem ela, todas as linhas usam a moeda informada na importação
+    delimiter: z.string().length(1).default(','),
+    dateFormat: z.enum(['iso', 'dd/mm/yyyy', 'mm/dd/yyyy']).default('iso'),
+    decimalSeparator: z.enum(['.', ',']).default('.'),
+  })
+  .default({})
+
+export type CsvMapping = z.infer<typeof csvMappingSchema>
+
+// Linha do extrato antes da validação: os valores que não puderam ser lidos ficam nulos
+interface StatementRow {
+  line: number
+  date: Date | null
+  title: string | null
+  amount: number | null // em unidades maiores da moeda, como no arquivo
+  type?: string | null
+  currency?: string | null
+  externalId: string | null
+}
+
+// Esquema Zod que valida cada linha do extrato
+const statementRowSchema = z.object({
+  date: z.date({ invalid_type_error: 'Data inválida.' }),
+  title: z.string({ invalid_type_error: 'Título obrigatório.' }).trim().min(1),
+  amount: z
+    .number({ invalid_type_error: 'Valor inválido.' })
+    .refine((amount) => amount !== 0, 'O valor não pode ser zero.'),
+  type: z.enum(['credit', 'debit']).nullish(),
+  currency: currencySchema,
+  externalId: z.string().nullable(),
+})
+
+// Erro no formato do arquivo como um todo (e não em uma linha específica). O tratador de erros global responde com o status 400
+export class StatementFormatError extends BadRequestError {}
+
+function parseDate(value: string, format: CsvMapping['dateFormat']) {
+  if (format === 'iso') {
+    const date = new Date(value)
+
+    return Number.isNaN(date.getTime()) ? null : date
+  }
+
+  const match = /^(\d{1,2})\/(\d{1,2})\/(\d{4})$/.exec(value)
+
+  if (!match) {
+    return null
+  }
+
+  const [day, month] =
+    format === 'dd/mm/yyyy' ? [match[1], match[2]] : [match[2], match[1]]
+
+  const date = new Date(
+    Date.UTC(Number(match[3]), Number(month) - 1, Number(day)),
+  )
+
+  // Date.UTC aceita valores fora do intervalo (ex.: dia 31/02 vira 03/03), então conferimos se a data continua a mesma
+  return date.getUTCDate() === Number(day) ? date : null
+}
+
+function parseAmount(
+  value: string,
+  decimalSeparator: CsvMapping['decimalSeparator'],
+) {
+  const thousandsSeparator = decimalSeparator === '.' ? ',' : '.'
+
+  const normalized = value
+    .trim()
+    .split(thousandsSeparator)
+    .join('')
+    .replace(decimalSeparator, '.')
+
+  const amount = normalized === '' ? NaN : Number(normalized)
+
+  return Number.isNaN(amount) ? null : amount
+}
+
+function parseCsvStatement(content: string, mapping: CsvMapping) {
+  const [header, ...rows] = parseCsv(content, mapping.delimiter)
+
+  if (!header) {
+    throw new StatementFormatError('O arquivo CSV está vazio.')
+  }
+
+  const columns = header.map((column) => column.trim())
+
+  const indexOf = (column: string) => {
+    const index = columns.indexOf(column)
+
+    if (index === -1) {
+      throw new StatementFormatError(
+        `A coluna "${column}" não foi encontrada no cabeçalho do arquivo CSV.`,
+      )
+    }
+
+    return index
+  }
+
+  const dateIndex = indexOf(mapping.date)
+  const titleIndex = indexOf(mapping.title)
+  const amountIndex = indexOf(mapping.amount)
+  const typeIndex = mapping.type ? indexOf(mapping.type) : undefined
+  // Arquivos com a coluna "currency" (como os gerados pela exportação) não precisam informar a coluna de moeda no mapeamento
+  const currencyColumn =
+    mapping.currency ?? (columns.includes('currency') ? 'currency' : undefined)
+  const currencyIndex = currencyColumn ? indexOf(currencyColumn) : undefined
+
+  return rows.map<StatementRow>((row, index) => ({
+    line: index + 2, // a linha 1 é o cabeçalho
+    date: parseDate(row[dateIndex]?.trim() ?? '', mapping.dateFormat),
+    title: row[titleIndex] ?? null,
+    amount: parseAmount(row[amountIndex] ?? '', mapping.decimalSeparator),
+    type:
+      typeIndex === undefined
+        ? undefined
+        : row[typeIndex]?.trim().toLowerCase(),
+    currency:
+      currencyIndex === undefined ? undefined : row[currencyIndex]?.trim(),
+    externalId: null,
+  }))
+}
+
+function parseOfxStatement(content: string) {
+  const transactions = parseOfx(content)
+
+  if (transactions.length === 0) {
+    throw new StatementFormatError(
+      'Nenhuma transação foi encontrada no arquivo OFX.',
+    )
+  }
+
+  return transactions.map<StatementRow>((transaction, index) => ({
+    line: index + 1, // no OFX, a "linha" é a posição da transação no extrato
+    date: transaction.date,
+    title: transaction.title,
+    amount: transaction.amount,
+    currency: transaction.currency,
+    externalId: transaction.fitid,
+  }))
+}
+
+// No JSON Lines, cada linha do arquivo é um objeto JSON com as propriedades date, title, amount e, opcionalmente, currency e externalId
+function parseJsonlStatement(content: string) {
+  return content.split(/\r?\n/).flatMap<StatementRow>((text, index) => {
+    if (text.trim() === '') {
+      return []
+    }
+
+    let value: Record<string, unknown> = {}
+
+    try {
+      const parsed = JSON.parse(text)
+
+      value = typeof parsed === 'object' && parsed !== null ? parsed : {}
+    } catch {
+      // A linha com JSON inválido fica com todos os valores nulos e é rejeitada na validação
+    }
+
+    const date = typeof value.date === 'string' ? new Date(value.date) : null
+
+    return [
+      {
+        line: index + 1,
+        date: date && !Number.isNaN(date.getTime()) ? date : null,
+        title: typeof value.title === 'string' ? value.title : null,
+        amount: typeof value.amount === 'number' ? value.amount : null,
+        currency: typeof value.currency === 'string' ? value.currency : null,
+        externalId:
+          typeof value.externalId === 'string' ? value.externalId : null,
+      },
+    ]
+  })
+}
+
+export type ParsedStatementRow =
+  | {
+      line: number
+      valid: true
+      date: Date
+      title: string
+      amount: number // em unidades menores da moeda (centavos)
+      currency: string
+      externalId: string | null
+    }
+  | {
+      line: number
+      valid: false
+      errors: { field: string; message: string }[]
+    }
+
+export const statementFormats = ['csv', 'ofx', 'jsonl'] as const
+
+export type StatementFormat = (typeof statementFormats)[number]
+
+// Lê um extrato (CSV, OFX ou JSON Lines) e valida cada uma das suas linhas. Erros no formato do arquivo como um todo lançam StatementFormatError.
+// As linhas sem moeda usam defaultCurrency, e os valores são convertidos para unidades menores da moeda de cada linha
+export function parseStatement(
+  content: string,
+  format: StatementFormat,
+  mapping: CsvMapping,
+  defaultCurrency: string,
+): ParsedStatementRow[] {
+  const rows =
+    format === 'csv'
+      ? parseCsvStatement(content, mapping)
+      : format === 'ofx'
+        ? parseOfxStatement(content)
+        : parseJsonlStatement(content)
+
+  return rows.map(({ line, ...row }) => {
+    const result = statementRowSchema.safeParse({
+      ...row,
+      currency: row.currency || defaultCurrency, // uma célula de moeda vazia também usa a moeda padrão
+    })
+
+    if (!result.success) {
+      return {
+        line,
+        valid: false,
+        errors: result.error.issues.map((issue) => ({
+          field: issue.path.join('.'),
+          message: issue.message,
+        })),
+      }
+    }
+
+    const { date, title, amount, type, currency, externalId } = result.data
+
+    const minorUnits = toMinorUnits(amount, currency)
+
+    // Com a coluna de tipo, o valor é considerado em módulo e o sinal vem do tipo
+    const signedAmount = type
+      ? type === 'credit'
+        ? Math.abs(minorUnits)
+        : Math.abs(minorUnits) * -1
+      : minorUnits
+
+    return {
+      line,
+      valid: true,
+      date,
+      title,
+      amount: signedAmount,
+      currency,
+      externalId,
+    }
+  })
+}
@@ -0,0 +1,144 @@
+import { env } from '../env'
+
+export type TimelineInterval = 'day' | 'week' | 'month'
+
+export interface TimelinePeriodTotals {
+  period: string
+  credits: number
+  debits: number
+}
+
+// Devolve a expressão SQL que calcula o início do período (no formato YYYY-MM-DD) de cada transação.
+// As funções de data do SQLite e do PostgreSQL são diferentes, por isso cada banco tem a sua própria expressão.
+// offsetMinutes já foi validado como inteiro, então pode ser colocado diretamente no SQL. Isto é necessário porque a mesma expressão é usada no select e no
+// group by, e o PostgreSQL não considera iguais duas expressões que usam parâmetros diferentes ($1, $2)
+// Em consultas com join, informe a coluna com o nome da tabela (ex.: transactions.created_at)
+export function periodExpression(
+  interval: TimelineInterval,
+  offsetMinutes: number,
+  column = 'created_at',
+) {
+  if (env.DATABASE_CLIENT === 'sqlite') {
+    // No SQLite, created_at é um texto no formato 'YYYY-MM-DD HH:MM:SS' (UTC)
+    const localDate = `datetime(${column}, '${offsetMinutes} minutes')`
+
+    switch (interval) {
+      case 'day':
+        return `strftime('%Y-%m-%d', ${localDate})`
+      case 'week':
+        // 'weekday 0' avança até o próximo domingo (ou mantém a data, se já for domingo). Voltando 6 dias, chegamos à segunda-feira da semana
+        return `date(${localDate}, 'weekday 0', '-6 days')`
+      case 'month':
+        return `strftime('%Y-%m-01', ${localDate})`
+    }
+  }
+
+  // No PostgreSQL, created_at é um timestamptz. Convertemos para UTC e aplicamos o deslocamento do fuso horário
+  const localDate = `((${column} at time zone 'UTC') + interval '${offsetMinutes} minutes')`
+
+  return `to_char(date_trunc('${interval}', ${localDate}), 'YYYY-MM-DD')`
+}
+
+// Converte um deslocamento de fuso horário no formato ±HH:MM para minutos
+export function parseTimezoneOffset(offset: string) {
+  const [, sign, hours, minutes] = /^([+-])(\d{2}):(\d{2})$/.exec(offset) ?? []
+
+  const totalMinutes = Number(hours) * 60 + Number(minutes)
+
+  return sign === '-' ? -totalMinutes : totalMinutes
+}
+
+// Data (em UTC) do início do período que contém a data informada, já deslocada pelo fuso horário
+function startOfPeriod(
+  date: Date,
+  interval: TimelineInterval,
+  offsetMinutes: number,
+) {
+  const localDate = new Date(date.getTime() + offsetMinutes * 60 * 1000)
+
+  const start = new Date(
+    Date.UTC(
+      localDate.getUTCFullYear(),
+      localDate.getUTCMonth(),
+      localDate.getUTCDate(),
+    ),
+  )
+
+  if (interval === 'week') {
+    start.setUTCDate(start.getUTCDate() - ((start.getUTCDay() + 6) % 7)) // volta até a segunda-feira
+  } else if (interval === 'month') {
+    start.setUTCDate(1)
+  }
+
+  return start
+}
+
+function nextPeriod(start: Date, interval: TimelineInterval) {
+  const next = new Date(start)
+
+  if (interval === 'day') {
+    next.setUTCDate(next.getUTCDate() + 1)
+  } else if (interval === 'week') {
+    next.setUTCDate(next.getUTCDate() + 7)
+  } else {
+    next.setUTCMonth(next.getUTCMonth() + 1)
+  }
+
+  return next
+}
+
+function formatPeriod(date: Date) {
+  return date.toISOString().slice(0, 10)
+}
+
+interface BuildTimelineParams {
+  interval: TimelineInterval
+  offsetMinutes: number
+  from?: Date
+  to?: Date
+  openingBalance: number
+  totals: TimelinePeriodTotals[]
+}
+
+// Monta a série temporal completa: os períodos sem transações também aparecem (com totais zerados), e o saldo de fechamento de cada período é acumulado
+// a partir do saldo de abertura (soma das transações anteriores ao intervalo)
+export function buildTimeline({
+  interval,
+  offsetMinutes,
+  from,
+  to,
+  openingBalance,
+  totals,
+}: BuildTimelineParams) {
+  const totalsByPeriod = new Map(totals.map((row) => [row.period, row]))
+
+  const periods = totals.map((row) => row.period).sort()
+
+  const first = from
+    ? startOfPeriod(from, interval, offsetMinutes)
+    : periods.length > 0
+      ? new Date(`${periods[0]}T00:00:00.000Z`)
+      : undefined
+
+  const last = startOfPeriod(to ?? new Date(), interval, offsetMinutes)
+
+  const timeline = []
+  let balance = openingBalance
+
+  for (
+    let period = first;
+    period && period <= last;
+    period = nextPeriod(period, interval)
+  ) {
+    const key = formatPeriod(period)
+    const credits = totalsByPeriod.get(key)?.credits ?? 0
+    const debits = totalsByPeriod.get(key)?.debits ?? 0
+    const net = credits - debits
+
+    balance += net
+
+    timeline.push({ period: key, credits, debits, net, balance })
+  }
+
+  return timeline
+}
@@ -0,0 +1,36 @@
+import type { FastifyBaseLogger } from 'fastify'
+import type { Knex } from 'knex'
+import { eventBus } from './event-bus'
+import { transactionsCreatedCounter } from './metrics'
+import { omitSessionId } from './session'
+import { attachTags } from './transaction-tags'
+import { getTransactionsSummary } from './transactions-summary'
+
+// Conta as transações criadas (métrica transactions_created_total) e publica os eventos de uma alteração nas transações da sessão: um transaction.created
+// para cada transação criada e, em seguida, um summary.updated com o resumo atualizado. Deve ser chamada depois que a transação do banco de dados for
+// confirmada, para que o resumo já inclua a alteração. Os erros da publicação são escritos no logger recebido (request.log nas rotas)
+export async function publishTransactionsEvents(
+  db: Knex,
+  logger: FastifyBaseLogger,
+  sessionId: string,
+  createdTransactions: { id: string }[] = [],
+) {
+  transactionsCreatedCounter.inc(createdTransactions.length)
+
+  // Os eventos não fazem parte da operação: se a publicação falhar, a alteração já gravada continua valendo e o erro fica apenas no log
+  try {
+    for (const transaction of await attachTags(db, createdTransactions)) {
+      await eventBus.publish(sessionId, {
+        type: 'transaction.created',
+        data: { transaction: omitSessionId(transaction) },
+      })
+    }
+
+    await eventBus.publish(sessionId, {
+      type: 'summary.updated',
+      data: await getTransactionsSummary(db, sessionId),
+    })
+  } catch (error) {
+    logger.error(error, 'Erro ao publicar os eventos das transações.')
+  }
+}
@@ -0,0 +1,52 @@
+import type { Knex } from 'knex'
+import type { Tables } from 'knex/types/tables'
+
+type Transaction = Tables['transactions']
+type TransactionHistoryAction = Tables['transaction_history']['action']
+
+interface RecordTransactionHistoryParams {
+  sessionId: string
+  action: TransactionHistoryAction
+  before?: Transaction
+  after?: Transaction
+}
+
+// Registra uma alteração de transação na tabela transaction_history.
+// Recebe a instância do knex (ou uma transação do banco de dados) para que o registro seja gravado junto com a alteração
+export async function recordTransactionHistory(
+  db: Knex,
+  { sessionId, action, before, after }: RecordTransactionHistoryParams,
+) {
+  const transactionId = (before ?? after)?.id
+
+  if (!transactionId) {
+    throw new Error('O histórico precisa do estado anterior ou posterior.')
+  }
+
+  await db('transaction_history').insert({
+    transaction_id: transactionId,
+    session_id: sessionId,
+    action,
+    before: before ? JSON.stringify(before) : null,
+    after: after ? JSON.stringify(after) : null,
+  })
+}
+
+// Registra a criação de várias transações de uma só vez, usando inserções em lotes
+export async function recordCreatedTransactionsHistory(
+  db: Knex,
+  sessionId: string,
+  transactions: Transaction[],
+) {
+  await db.batchInsert(
+    'transaction_history',
+    transactions.map((transaction) => ({
+      transaction_id: transaction.id,
+      session_id: sessionId,
+      action: 'created' as const,
+      before: null,
+      after: JSON.stringify(transaction),
+    })),
+    100,
+  )
+}
@@ -0,0 +1,64 @@
+import { z } from 'zod'
+import { accountKinds } from './accounts'
+import { currencySchema, DEFAULT_CURRENCY, minorUnitsSchema } from './money'
+
+// Esquema Zod que define as regras para o corpo da criação de uma transação. Ele é compartilhado pela criação individual e pela criação em lote
+export const createTransactionBodySchema = z.object({
+  title: z.string(),
+  amount: minorUnitsSchema.positive(), // em unidades menores da moeda (centavos). O sinal é definido pelo tipo
+  type: z.enum(['credit', 'debit']),
+  currency: currencySchema.default(DEFAULT_CURRENCY),
+  categoryId: z.string().uuid().optional(),
+  tags: z.array(z.string()).default([]),
+  accountId: z.string().uuid().optional(), // sem accountId, a transação é criada na conta principal da sessão
+})
+
+export type CreateTransactionBody = z.infer<typeof createTransactionBodySchema>
+
+// Datas como devolvidas pelo banco de dados: o SQLite devolve texto e o driver pg devolve objetos Date (convertidos para texto no formato ISO 8601 na
+// serialização da resposta)
+export const databaseDateSchema = z.union([z.string(), z.date()])
+
+// Esquemas Zod das respostas. Além de descrever as respostas na documentação OpenAPI, eles são usados na serialização: as propriedades que não
+// estiverem no esquema não são enviadas ao cliente
+export const transactionSchema = z.object({
+  id: z.string().uuid(),
+  title: z.string(),
+  amount: z
+    .number()
+    .int()
+    .describe(
+      'Valor em unidades menores da moeda (centavos). Negativo para débitos.',
+    ),
+  currency: z.string().optional(),
+  created_at: databaseDateSchema,
+  deleted_at: databaseDateSchema.nullish(),
+  category_id: z.string().nullish(),
+  account_id: z.string().nullish(),
+  transfer_id: z.string().nullish(), // transações criadas por uma transferência entre contas
+  external_id: z.string().nullish(), // identificador da transação no extrato importado
+  recurring_id: z.string().nullish(), // transações geradas por uma transação recorrente
+  occurrence_at: databaseDateSchema.nullish(),
+})
+
+// As propriedades opcionais seguem o tipo da tabela transactions (src/@types/knex.d.ts), mas os registros lidos do banco de dados sempre têm todas as colunas
+export const transactionWithTagsSchema = transactionSchema.extend({
+  tags: z.array(z.string()),
+})
+
+export const budgetWarningSchema = z.object({
+  budgetId: z.string(),
+  name: z.string(),
+  limit: z.number(),
+  spent: z.number(),
+  message: z.string(),
+})
+
+export const accountWithBalanceSchema = z.object({
+  id: z.string(),
+  name: z.string(),
+  kind: z.enum(accountKinds),
+  opening_balance: z.number(),
+  balance: z.number(), // saldo inicial + soma das transações não excluídas
+  created_at: databaseDateSchema,
+})
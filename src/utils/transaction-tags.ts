@@ -0,0 +1,54 @@
+import type { Knex } from 'knex'
+import type { Tables } from 'knex/types/tables'
+import { chunk } from '../database'
+
+// As tags são comparadas sem diferenciar maiúsculas de minúsculas, por isso são guardadas em minúsculas e sem repetições
+export function normalizeTags(tags: string[]) {
+  return [...new Set(tags.map((tag) => tag.trim().toLowerCase()))].filter(
+    (tag) => tag.length > 0,
+  )
+}
+
+// Substitui todas as tags de uma transação pelas tags informadas
+export async function replaceTransactionTags(
+  db: Knex,
+  transactionId: string,
+  tags: string[],
+) {
+  await db('transaction_tags').where('transaction_id', transactionId).delete()
+
+  const normalizedTags = normalizeTags(tags)
+
+  if (normalizedTags.length > 0) {
+    await db('transaction_tags').insert(
+      normalizedTags.map((tag) => ({ transaction_id: transactionId, tag })),
+    )
+  }
+}
+
+// Adiciona a propriedade tags a cada transação, buscando as tags de todas elas de uma só vez (em partes, quando há muitas transações)
+export async function attachTags<T extends { id: string }>(
+  db: Knex,
+  transactions: T[],
+) {
+  const rows: Tables['transaction_tags'][] = []
+
+  for (const transactionsChunk of chunk(transactions)) {
+    rows.push(
+      ...(await db('transaction_tags')
+        .whereIn(
+          'transaction_id',
+          transactionsChunk.map((transaction) => transaction.id),
+        )
+        .orderBy('tag')
+        .select()),
+    )
+  }
+
+  return transactions.map((transaction) => ({
+    ...transaction,
+    tags: rows
+      .filter((row) => row.transaction_id === transaction.id)
+      .map((row) => row.tag),
+  }))
+}
@@ -0,0 +1,123 @@
+import type { Knex } from 'knex'
+import { z } from 'zod'
+import { toDatabaseDate } from '../database'
+import { currencySchema } from './money'
+
+// Esquema Zod que define os filtros aceitos pelas rotas que listam transações (os valores chegam como string na query, por isso usamos coerce)
+export const transactionsFiltersSchema = z.object({
+  from: z.coerce.date().optional(), // data inicial (inclusiva) de created_at
+  to: z.coerce.date().optional(), // data final (inclusiva) de created_at
+  type: z.enum(['credit', 'debit']).optional(),
+  minAmount: z.coerce.number().int().nonnegative().optional(), // valor mínimo (absoluto, em centavos) da transação
+  maxAmount: z.coerce.number().int().nonnegative().optional(), // valor máximo (absoluto, em centavos) da transação
+  search: z.string().trim().min(1).optional(), // trecho do título da transação
+  currency: currencySchema.optional(),
+  categoryId: z.string().uuid().optional(),
+  accountId: z.string().uuid().optional(),
+  tag: z
+    .string()
+    .trim()
+    .min(1)
+    .transform((tag) => tag.toLowerCase())
+    .optional(),
+  deleted: z
+    .enum(['true', 'false'])
+    .default('false')
+    .transform((deleted) => deleted === 'true'), // com deleted=true, apenas as transações excluídas (lixeira) são consideradas
+})
+
+export type TransactionsFilters = z.infer<typeof transactionsFiltersSchema>
+
+// Colunas da tabela transactions que podem ser usadas na ordenação
+export const transactionsSortColumns = {
+  createdAt: 'created_at',
+  amount: 'amount',
+  title: 'title',
+} as const
+
+export const transactionsSortSchema = z.object({
+  sortBy: z.enum(['createdAt', 'amount', 'title']).default('createdAt'),
+  order: z.enum(['asc', 'desc']).default('desc'),
+})
+
+// Escapa os caracteres curingas do LIKE (% e _) para que eles sejam tratados como texto literal na busca
+export function escapeLike(value: string) {
+  return value.replace(/[\\%_]/g, (char) => `\\${char}`)
+}
+
+// Aplica os filtros à consulta recebida. As expressões usadas aqui funcionam tanto no SQLite quanto no PostgreSQL.
+// Os filtros não informados são ignorados, exceto deleted: sem ele, as transações excluídas ficam de fora
+export function applyTransactionsFilters(
+  query: Knex.QueryBuilder,
+  filters: Partial<TransactionsFilters>,
+) {
+  const {
+    from,
+    to,
+    type,
+    minAmount,
+    maxAmount,
+    search,
+    currency,
+    categoryId,
+    accountId,
+    tag,
+    deleted = false,
+  } = filters
+
+  if (deleted) {
+    query.whereNotNull('deleted_at')
+  } else {
+    query.whereNull('deleted_at')
+  }
+
+  if (from) {
+    query.where('created_at', '>=', toDatabaseDate(from))
+  }
+
+  if (to) {
+    query.where('created_at', '<=', toDatabaseDate(to))
+  }
+
+  // O tipo da transação não é armazenado, ele é derivado do sinal da coluna amount
+  if (type === 'credit') {
+    query.where('amount', '>', 0)
+  } else if (type === 'debit') {
+    query.where('amount', '<', 0)
+  }
+
+  if (minAmount !== undefined) {
+    query.whereRaw('abs(amount) >= ?', [minAmount])
+  }
+
+  if (maxAmount !== undefined) {
+    query.whereRaw('abs(amount) <= ?', [maxAmount])
+  }
+
+  // O LIKE do PostgreSQL diferencia maiúsculas de minúsculas e o do SQLite não, por isso comparamos tudo em minúsculas
+  if (search) {
+    query.whereRaw("lower(title) like ? escape '\\'", [
+      `%${escapeLike(search.toLowerCase())}%`,
+    ])
+  }
+
+  if (currency) {
+    query.where('currency', currency)
+  }
+
+  if (categoryId) {
+    query.where('category_id', categoryId)
+  }
+
+  if (accountId) {
+    query.where('account_id', accountId)
+  }
+
+  if (tag) {
+    query.whereIn('id', (subquery) => {
+      subquery.select('transaction_id').from('transaction_tags').where({ tag })
+    })
+  }
+
+  return query
+}
@@ -0,0 +1,29 @@
+import type { Knex } from 'knex'
+import { getAccountsWithBalance } from './accounts'
+import { DEFAULT_CURRENCY } from './money'
+
+// Resumo das transações da sessão: a soma das transações não excluídas, o saldo de cada conta e o saldo total. É a resposta de GET /transactions/summary
+// (sem groupBy e sem currency) e o conteúdo dos eventos summary.updated.
+// Valores em moedas diferentes não podem ser somados, então apenas as transações na moeda padrão (DEFAULT_CURRENCY) entram no resumo e nos saldos.
+// Para incluir as demais, use GET /transactions/summary?currency=, que converte todas as transações para uma moeda
+export async function getTransactionsSummary(db: Knex, sessionId: string) {
+  // Devolve a soma das transações (coluna amount da tabela transactions) associadas ao sessionId do cliente
+  // Uma consulta com sum sempre devolve uma linha (com amount nulo quando não há transações), mas o tipo devolvido pelo first também inclui undefined
+  const { amount } = (await db('transactions')
+    .where('session_id', sessionId)
+    .where('currency', DEFAULT_CURRENCY)
+    .whereNull('deleted_at') // transações excluídas não entram no resumo
+    .sum('amount', { as: 'amount' }) // com { as: 'amount' }, estamos especificando um alías para a coluna sum('amount')
+    .first()) ?? { amount: null } // por padrão, knex retorna um array. O método first retorna apenas o primeiro resultado, daí temos um objeto
+
+  const summary = { amount, currency: DEFAULT_CURRENCY }
+
+  // Saldo de cada conta (saldo inicial + transações) e o saldo total somando todas as contas
+  const accounts = await getAccountsWithBalance(db, sessionId)
+  const totalBalance = accounts.reduce(
+    (total, account) => total + account.balance,
+    0,
+  )
+
+  return { summary, accounts, totalBalance }
+}
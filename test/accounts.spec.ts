@@ -0,0 +1,203 @@
+import { execSync } from 'node:child_process'
+import { afterAll, beforeAll, it, describe, expect, beforeEach } from 'vitest'
+import request from 'supertest'
+import { app } from '../src/app'
+
+describe('Accounts routes', () => {
+  beforeAll(async () => {
+    await app.ready()
+  })
+
+  afterAll(async () => {
+    await app.close()
+  })
+
+  beforeEach(() => {
+    execSync('npm run knex migrate:rollback --all')
+    execSync('npm run knex migrate:latest')
+  })
+
+  it('should be able to create and list accounts with their balances', async () => {
+    const createAccountResponse = await request(app.server)
+      .post('/accounts')
+      .send({ name: 'Wallet', kind: 'cash', openingBalance: 100 })
+      .expect(201)
+
+    const cookies = createAccountResponse.get('Set-Cookie')
+    const accountId = createAccountResponse.body.account.id
+
+    await request(app.server)
+      .post('/transactions')
+      .set('Cookie', cookies)
+      .send({ title: 'Coffee', amount: 10, type: 'debit', accountId })
+
+    const listAccountsResponse = await request(app.server)
+      .get('/accounts')
+      .set('Cookie', cookies)
+      .expect(200)
+
+    expect(listAccountsResponse.body.accounts).toEqual([
+      expect.objectContaining({ name: 'Wallet', balance: 90 }),
+    ])
+  })
+
+  it('should create transactions without account in the main account', async () => {
+    const createTransactionResponse = await request(app.server)
+      .post('/transactions')
+      .send({ title: 'Salary', amount: 5000, type: 'credit' })
+
+    const cookies = createTransactionResponse.get('Set-Cookie')
+
+    const listAccountsResponse = await request(app.server)
+      .get('/accounts')
+      .set('Cookie', cookies)
+      .expect(200)
+
+    expect(listAccountsResponse.body.accounts).toEqual([
+      expect.objectContaining({ name: 'Conta principal', balance: 5000 }),
+    ])
+  })
+
+  it('should be able to transfer between accounts', async () => {
+    const createCheckingResponse = await request(app.server)
+      .post('/accounts')
+      .send({ name: 'Checking', kind: 'checking', openingBalance: 1000 })
+
+    const cookies = createCheckingResponse.get('Set-Cookie')
+    const checkingId = createCheckingResponse.body.account.id
+
+    const createWalletResponse = await request(app.server)
+      .post('/accounts')
+      .set('Cookie', cookies)
+      .send({ name: 'Wallet', kind: 'cash' })
+
+    const walletId = createWalletResponse.body.account.id
+
+    const createTransferResponse = await request(app.server)
+      .post('/transfers')
+      .set('Cookie', cookies)
+      .send({ fromAccountId: checkingId, toAccountId: walletId, amount: 200 })
+      .expect(201)
+
+    // A transferência gera um débito na conta de origem e um crédito na conta de destino
+    expect(createTransferResponse.body.transfer.transactions).toEqual(
+      expect.arrayContaining([
+        expect.objectContaining({ account_id: checkingId, amount: -200 }),
+        expect.objectContaining({ account_id: walletId, amount: 200 }),
+      ]),
+    )
+
+    const summaryResponse = await request(app.server)
+      .get('/transactions/summary')
+      .set('Cookie', cookies)
+      .expect(200)
+
+    expect(summaryResponse.body.accounts).toEqual(
+      expect.arrayContaining([
+        expect.objectContaining({ id: checkingId, balance: 800 }),
+        expect.objectContaining({ id: walletId, balance: 200 }),
+      ]),
+    )
+    expect(summaryResponse.body.totalBalance).toEqual(1000)
+  })
+
+  it('should keep both transactions of a transfer together', async () => {
+    const createCheckingResponse = await request(app.server)
+      .post('/accounts')
+      .send({ name: 'Checking', kind: 'checking', openingBalance: 1000 })
+
+    const cookies = createCheckingResponse.get('Set-Cookie')
+
+    const createWalletResponse = await request(app.server)
+      .post('/accounts')
+      .set('Cookie', cookies)
+      .send({ name: 'Wallet', kind: 'cash' })
+
+    const createTransferResponse = await request(app.server)
+      .post('/transfers')
+      .set('Cookie', cookies)
+      .send({
+        fromAccountId: createCheckingResponse.body.account.id,
+        toAccountId: createWalletResponse.body.account.id,
+        amount: 200,
+      })
+      .expect(201)
+
+    const [debit, credit] = createTransferResponse.body.transfer.transactions
+
+    // O valor de apenas uma das transações não pode ser alterado, mas o título pode
+    await request(app.server)
+      .patch(`/transactions/${debit.id}`)
+      .set('Cookie', cookies)
+      .send({ amount: 500 })
+      .expect(409)
+
+    await request(app.server)
+      .patch(`/transactions/${debit.id}`)
+      .set('Cookie', cookies)
+      .send({ title: 'Saque' })
+      .expect(200)
+
+    // Excluir uma das transações exclui a transferência inteira
+    await request(app.server)
+      .delete(`/transactions/${credit.id}`)
+      .set('Cookie', cookies)
+      .expect(204)
+
+    const summaryResponse = await request(app.server)
+      .get('/transactions/summary')
+      .set('Cookie', cookies)
+      .expect(200)
+
+    expect(summaryResponse.body.totalBalance).toEqual(1000)
+    expect(summaryResponse.body.accounts).toEqual(
+      expect.arrayContaining([
+        expect.objectContaining({ name: 'Checking', balance: 1000 }),
+        expect.objectContaining({ name: 'Wallet', balance: 0 }),
+      ]),
+    )
+
+    // E a restauração também vale para as duas
+    await request(app.server)
+      .post(`/transactions/${debit.id}/restore`)
+      .set('Cookie', cookies)
+      .expect(200)
+
+    const listTransactionsResponse = await request(app.server)
+      .get('/transactions')
+      .set('Cookie', cookies)
+      .expect(200)
+
+    expect(listTransactionsResponse.body.transactions).toHaveLength(2)
+  })
+
+  it('should not be able to transfer to an account of another session', async () => {
+    const createCheckingResponse = await request(app.server)
+      .post('/accounts')
+      .send({ name: 'Checking', kind: 'checking', openingBalance: 1000 })
+
+    const cookies = createCheckingResponse.get('Set-Cookie')
+    const checkingId = createCheckingResponse.body.account.id
+
+    // Conta criada sem os cookies, ou seja, em outra sessão
+    const createOtherAccountResponse = await request(app.server)
+      .post('/accounts')
+      .send({ name: 'Other', kind: 'cash' })
+
+    await request(app.server)
+      .post('/transfers')
+      .set('Cookie', cookies)
+      .send({
+        fromAccountId: checkingId,
+        toAccountId: createOtherAccountResponse.body.account.id,
+        amount: 200,
+      })
+      .expect(400)
+
+    const listTransactionsResponse = await request(app.server)
+      .get('/transactions')
+      .set('Cookie', cookies)
+
+    expect(listTransactionsResponse.body.transactions).toEqual([])
+  })
+})
@@ -0,0 +1,89 @@
+import { execSync } from 'node:child_process'
+import { afterAll, beforeAll, it, describe, expect, beforeEach } from 'vitest'
+import request from 'supertest'
+import { app } from '../src/app'
+
+describe('Auth routes', () => {
+  beforeAll(async () => {
+    await app.ready()
+  })
+
+  afterAll(async () => {
+    await app.close()
+  })
+
+  beforeEach(() => {
+    execSync('npm run knex migrate:rollback --all')
+    execSync('npm run knex migrate:latest')
+  })
+
+  it('should adopt the anonymous session transactions on register', async () => {
+    // Cria uma transação como cliente anônimo
+    const createTransactionResponse = await request(app.server)
+      .post('/transactions')
+      .send({ title: 'New transaction', amount: 5000, type: 'credit' })
+
+    const anonymousCookies = createTransactionResponse.get('Set-Cookie')
+
+    const registerResponse = await request(app.server)
+      .post('/auth/register')
+      .set('Cookie', anonymousCookies)
+      .send({ email: 'john.doe@example.com', password: '12345678' })
+      .expect(201)
+
+    const userCookies = registerResponse.get('Set-Cookie')
+
+    // A transação agora pertence ao usuário
+    const listTransactionsResponse = await request(app.server)
+      .get('/transactions')
+      .set('Cookie', userCookies)
+      .expect(200)
+
+    expect(listTransactionsResponse.body.transactions).toEqual([
+      expect.objectContaining({ title: 'New transaction' }),
+    ])
+
+    // E não é mais acessível com o cookie anônimo antigo
+    const anonymousListResponse = await request(app.server)
+      .get('/transactions')
+      .set('Cookie', anonymousCookies)
+      .expect(200)
+
+    expect(anonymousListResponse.body.transactions).toEqual([])
+  })
+
+  it('should be able to login and logout', async () => {
+    await request(app.server)
+      .post('/auth/register')
+      .send({ email: 'john.doe@example.com', password: '12345678' })
+
+    await request(app.server)
+      .post('/auth/login')
+      .send({ email: 'john.doe@example.com', password: 'wrong-password' })
+      .expect(401)
+
+    const loginResponse = await request(app.server)
+      .post('/auth/login')
+      .send({ email: 'John.Doe@example.com', password: '12345678' })
+      .expect(200)
+
+    const cookies = loginResponse.get('Set-Cookie')
+
+    const meResponse = await request(app.server)
+      .get('/auth/me')
+      .set('Cookie', cookies)
+      .expect(200)
+
+    expect(meResponse.body.user).toEqual(
+      expect.objectContaining({ email: 'john.doe@example.com' }),
+    )
+
+    await request(app.server)
+      .post('/auth/logout')
+      .set('Cookie', cookies)
+      .expect(204)
+
+    // Depois do logout, o token não é mais aceito
+    await request(app.server).get('/auth/me').set('Cookie', cookies).expect(401)
+  })
+})
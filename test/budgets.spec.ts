@@ -0,0 +1,143 @@
+import { execSync } from 'node:child_process'
+import { afterAll, beforeAll, it, describe, expect, beforeEach } from 'vitest'
+import request from 'supertest'
+import { app } from '../src/app'
+import { knex, toDatabaseDate } from '../src/database'
+
+describe('Budgets routes', () => {
+  beforeAll(async () => {
+    await app.ready()
+  })
+
+  afterAll(async () => {
+    await app.close()
+  })
+
+  beforeEach(() => {
+    execSync('npm run knex migrate:rollback --all')
+    execSync('npm run knex migrate:latest')
+  })
+
+  it('should warn when a transaction pushes a budget over its limit', async () => {
+    const createBudgetResponse = await request(app.server)
+      .post('/budgets')
+      .send({ name: 'Groceries', amount: 100000, titlePattern: 'market' })
+      .expect(201)
+
+    const cookies = createBudgetResponse.get('Set-Cookie')
+    const budgetId = createBudgetResponse.body.budget.id
+
+    const firstTransactionResponse = await request(app.server)
+      .post('/transactions')
+      .set('Cookie', cookies)
+      .send({ title: 'Supermarket', amount: 60000, type: 'debit' })
+      .expect(201)
+
+    expect(firstTransactionResponse.body.warnings).toEqual([])
+
+    // Créditos e transações com outro título não contam como gasto do orçamento
+    await request(app.server)
+      .post('/transactions')
+      .set('Cookie', cookies)
+      .send({ title: 'Market refund', amount: 5000, type: 'credit' })
+
+    await request(app.server)
+      .post('/transactions')
+      .set('Cookie', cookies)
+      .send({ title: 'Rent', amount: 150000, type: 'debit' })
+
+    const secondTransactionResponse = await request(app.server)
+      .post('/transactions')
+      .set('Cookie', cookies)
+      .send({ title: 'Farmers MARKET', amount: 50000, type: 'debit' })
+      .expect(201)
+
+    expect(secondTransactionResponse.body.warnings).toEqual([
+      expect.objectContaining({ budgetId, limit: 100000, spent: 110000 }),
+    ])
+
+    const statusResponse = await request(app.server)
+      .get('/budgets/status')
+      .set('Cookie', cookies)
+      .expect(200)
+
+    expect(statusResponse.body.status).toEqual([
+      expect.objectContaining({
+        limit: 100000,
+        spent: 110000,
+        remaining: -10000,
+        percentUsed: 110,
+        overspent: true,
+      }),
+    ])
+
+    // O aviso é dado apenas pela transação que ultrapassou o limite, e não pelos gastos seguintes
+    const thirdTransactionResponse = await request(app.server)
+      .post('/transactions')
+      .set('Cookie', cookies)
+      .send({ title: 'Market', amount: 1000, type: 'debit' })
+      .expect(201)
+
+    expect(thirdTransactionResponse.body.warnings).toEqual([])
+  })
+
+  it('should roll the unused amount over to the next month', async () => {
+    const today = new Date()
+    const lastMonthDate = new Date(
+      Date.UTC(today.getUTCFullYear(), today.getUTCMonth() - 1, 15),
+    )
+    const lastMonth = lastMonthDate.toISOString().slice(0, 7)
+
+    const createBudgetResponse = await request(app.server)
+      .post('/budgets')
+      .send({
+        name: 'Leisure',
+        amount: 20000,
+        rollover: true,
+        startMonth: lastMonth,
+      })
+      .expect(201)
+
+    const cookies = createBudgetResponse.get('Set-Cookie')
+
+    await request(app.server)
+      .post('/transactions')
+      .set('Cookie', cookies)
+      .send({ title: 'Cinema', amount: 5000, type: 'debit' })
+
+    // Move o gasto para o mês passado
+    await knex('transactions')
+      .where('title', 'Cinema')
+      .update({ created_at: toDatabaseDate(lastMonthDate) })
+
+    await request(app.server)
+      .post('/transactions')
+      .set('Cookie', cookies)
+      .send({ title: 'Concert', amount: 12000, type: 'debit' })
+
+    const lastMonthStatusResponse = await request(app.server)
+      .get('/budgets/status')
+      .query({ month: lastMonth })
+      .set('Cookie', cookies)
+      .expect(200)
+
+    expect(lastMonthStatusResponse.body.status).toEqual([
+      expect.objectContaining({ limit: 20000, spent: 5000, remaining: 15000 }),
+    ])
+
+    const statusResponse = await request(app.server)
+      .get('/budgets/status')
+      .set('Cookie', cookies)
+      .expect(200)
+
+    expect(statusResponse.body.status).toEqual([
+      expect.objectContaining({
+        limit: 35000,
+        rolledOver: 15000,
+        spent: 12000,
+        remaining: 23000,
+        overspent: false,
+      }),
+    ])
+  })
+})
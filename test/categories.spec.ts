@@ -0,0 +1,78 @@
+import { execSync } from 'node:child_process'
+import { afterAll, beforeAll, it, describe, expect, beforeEach } from 'vitest'
+import request from 'supertest'
+import { app } from '../src/app'
+
+describe('Categories routes', () => {
+  beforeAll(async () => {
+    await app.ready()
+  })
+
+  afterAll(async () => {
+    await app.close()
+  })
+
+  beforeEach(() => {
+    execSync('npm run knex migrate:rollback --all')
+    execSync('npm run knex migrate:latest')
+  })
+
+  it('should be able to create and list categories', async () => {
+    const createCategoryResponse = await request(app.server)
+      .post('/categories')
+      .send({ name: 'Groceries' })
+      .expect(201)
+
+    const cookies = createCategoryResponse.get('Set-Cookie')
+
+    // Não é possível criar duas categorias com o mesmo nome na mesma sessão
+    await request(app.server)
+      .post('/categories')
+      .set('Cookie', cookies)
+      .send({ name: 'Groceries' })
+      .expect(409)
+
+    const listCategoriesResponse = await request(app.server)
+      .get('/categories')
+      .set('Cookie', cookies)
+      .expect(200)
+
+    expect(listCategoriesResponse.body.categories).toEqual([
+      expect.objectContaining({ name: 'Groceries' }),
+    ])
+  })
+
+  it('should be able to rename and delete a category', async () => {
+    const createCategoryResponse = await request(app.server)
+      .post('/categories')
+      .send({ name: 'Grocery' })
+
+    const cookies = createCategoryResponse.get('Set-Cookie')
+    const categoryId = createCategoryResponse.body.category.id
+
+    await request(app.server)
+      .put(`/categories/${categoryId}`)
+      .set('Cookie', cookies)
+      .send({ name: 'Groceries' })
+      .expect(200)
+
+    await request(app.server)
+      .post('/transactions')
+      .set('Cookie', cookies)
+      .send({ title: 'Market', amount: 300, type: 'debit', categoryId })
+
+    await request(app.server)
+      .delete(`/categories/${categoryId}`)
+      .set('Cookie', cookies)
+      .expect(204)
+
+    // A transação continua existindo, mas fica sem categoria
+    const listTransactionsResponse = await request(app.server)
+      .get('/transactions')
+      .set('Cookie', cookies)
+
+    expect(listTransactionsResponse.body.transactions).toEqual([
+      expect.objectContaining({ title: 'Market', category_id: null }),
+    ])
+  })
+})
@@ -0,0 +1,79 @@
+import { afterAll, beforeAll, it, describe, expect } from 'vitest'
+import request from 'supertest'
+import { app } from '../src/app'
+
+describe('Docs routes', () => {
+  beforeAll(async () => {
+    await app.ready()
+  })
+
+  afterAll(async () => {
+    await app.close()
+  })
+
+  it('should serve the OpenAPI document generated from the route schemas', async () => {
+    const openapiResponse = await request(app.server)
+      .get('/openapi.json')
+      .expect(200)
+
+    const document = openapiResponse.body
+
+    expect(document.openapi).toMatch(/^3\./)
+
+    // A autenticação por cookies (sessão anônima ou usuário autenticado)
+    expect(document.components.securitySchemes).toEqual({
+      sessionCookie: expect.objectContaining({
+        type: 'apiKey',
+        in: 'cookie',
+        name: 'sessionId',
+      }),
+      tokenCookie: expect.objectContaining({
+        type: 'apiKey',
+        in: 'cookie',
+        name: 'token',
+      }),
+    })
+
+    // O corpo, os cabeçalhos e as respostas da criação vêm dos esquemas Zod da rota
+    const createTransaction = document.paths['/transactions/'].post
+
+    expect(
+      createTransaction.requestBody.content['application/json'].schema,
+    ).toEqual(
+      expect.objectContaining({
+        required: ['title', 'amount', 'type'],
+        properties: expect.objectContaining({
+          amount: expect.objectContaining({ type: 'integer' }),
+          type: expect.objectContaining({ enum: ['credit', 'debit'] }),
+        }),
+      }),
+    )
+    expect(createTransaction.parameters).toEqual([
+      expect.objectContaining({ in: 'header', name: 'idempotency-key' }),
+    ])
+    expect(Object.keys(createTransaction.responses)).toEqual([
+      '201',
+      '400',
+      '422',
+    ])
+
+    const getTransaction = document.paths['/transactions/{id}'].get
+
+    expect(getTransaction.parameters).toEqual([
+      expect.objectContaining({ in: 'path', name: 'id', required: true }),
+    ])
+    expect(getTransaction.security).toEqual([
+      { sessionCookie: [] },
+      { tokenCookie: [] },
+    ])
+
+    // As rotas da própria documentação não aparecem no documento
+    expect(Object.keys(document.paths)).not.toContain('/openapi.json')
+  })
+
+  it('should serve the docs UI', async () => {
+    const docsResponse = await request(app.server).get('/docs').expect(200)
+
+    expect(docsResponse.headers['content-type']).toContain('text/html')
+  })
+})
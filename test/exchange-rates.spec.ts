@@ -0,0 +1,215 @@
+import { execSync } from 'node:child_process'
+import { afterAll, beforeAll, it, describe, expect, beforeEach } from 'vitest'
+import request from 'supertest'
+import { app } from '../src/app'
+
+// Data (YYYY-MM-DD, em UTC) deslocada em alguns dias a partir de hoje
+function daysFromToday(days: number) {
+  return new Date(Date.now() + days * 24 * 60 * 60 * 1000)
+    .toISOString()
+    .slice(0, 10)
+}
+
+describe('Exchange rates routes', () => {
+  beforeAll(async () => {
+    await app.ready()
+  })
+
+  afterAll(async () => {
+    await app.close()
+  })
+
+  beforeEach(() => {
+    execSync('npm run knex migrate:rollback --all')
+    execSync('npm run knex migrate:latest')
+  })
+
+  it('should be able to create, replace and list exchange rates', async () => {
+    const createExchangeRateResponse = await request(app.server)
+      .post('/exchange-rates')
+      .send({
+        baseCurrency: 'usd',
+        quoteCurrency: 'BRL',
+        date: '2024-01-15',
+        rate: 5,
+      })
+      .expect(201)
+
+    const cookies = createExchangeRateResponse.get('Set-Cookie')
+
+    // A mesma data e o mesmo par substituem a cotação anterior
+    await request(app.server)
+      .post('/exchange-rates')
+      .set('Cookie', cookies)
+      .send({
+        baseCurrency: 'USD',
+        quoteCurrency: 'BRL',
+        date: '2024-01-15',
+        rate: 4.95,
+      })
+      .expect(201)
+
+    const listExchangeRatesResponse = await request(app.server)
+      .get('/exchange-rates')
+      .set('Cookie', cookies)
+      .expect(200)
+
+    expect(listExchangeRatesResponse.body.exchangeRates).toEqual([
+      expect.objectContaining({
+        base_currency: 'USD',
+        quote_currency: 'BRL',
+        date: '2024-01-15',
+        rate: 4.95,
+      }),
+    ])
+  })
+
+  it('should convert the summary using the rate valid on each transaction date', async () => {
+    const createTransactionResponse = await request(app.server)
+      .post('/transactions')
+      .send({ title: 'Salary', amount: 500000, type: 'credit' })
+
+    const cookies = createTransactionResponse.get('Set-Cookie')
+
+    await request(app.server)
+      .post('/transactions')
+      .set('Cookie', cookies)
+      .send({ title: 'Hotel', amount: 10050, type: 'debit', currency: 'USD' })
+      .expect(201)
+
+    await request(app.server)
+      .post('/exchange-rates')
+      .set('Cookie', cookies)
+      .send({
+        baseCurrency: 'USD',
+        quoteCurrency: 'BRL',
+        date: daysFromToday(-2),
+        rate: 5,
+      })
+
+    // Uma cotação futura não vale para as transações de hoje
+    await request(app.server)
+      .post('/exchange-rates')
+      .set('Cookie', cookies)
+      .send({
+        baseCurrency: 'USD',
+        quoteCurrency: 'BRL',
+        date: daysFromToday(2),
+        rate: 6,
+      })
+
+    const summaryInBrlResponse = await request(app.server)
+      .get('/transactions/summary')
+      .query({ currency: 'BRL' })
+      .set('Cookie', cookies)
+      .expect(200)
+
+    expect(summaryInBrlResponse.body.summary).toEqual({
+      amount: 500000 - 50250,
+      currency: 'BRL',
+    })
+
+    // No sentido inverso, é usado o inverso da cotação
+    const summaryInUsdResponse = await request(app.server)
+      .get('/transactions/summary')
+      .query({ currency: 'USD' })
+      .set('Cookie', cookies)
+      .expect(200)
+
+    expect(summaryInUsdResponse.body.summary).toEqual({
+      amount: 100000 - 10050,
+      currency: 'USD',
+    })
+
+    const summaryInEurResponse = await request(app.server)
+      .get('/transactions/summary')
+      .query({ currency: 'EUR' })
+      .set('Cookie', cookies)
+      .expect(422)
+
+    expect(summaryInEurResponse.body).toEqual(
+      expect.objectContaining({ code: 'UNPROCESSABLE_ENTITY' }),
+    )
+    expect(summaryInEurResponse.body.message).toContain('BRL para EUR')
+  })
+
+  it('should count a transaction with several tags only once in the converted summary', async () => {
+    const createTransactionResponse = await request(app.server)
+      .post('/transactions')
+      .send({
+        title: 'Hotel',
+        amount: 10050,
+        type: 'debit',
+        currency: 'USD',
+        tags: ['Travel', 'Work'],
+      })
+      .expect(201)
+
+    const cookies = createTransactionResponse.get('Set-Cookie')
+
+    await request(app.server)
+      .post('/exchange-rates')
+      .set('Cookie', cookies)
+      .send({
+        baseCurrency: 'USD',
+        quoteCurrency: 'BRL',
+        date: daysFromToday(-2),
+        rate: 5,
+      })
+      .expect(201)
+
+    const summaryResponse = await request(app.server)
+      .get('/transactions/summary')
+      .query({ currency: 'BRL', groupBy: 'tag' })
+      .set('Cookie', cookies)
+      .expect(200)
+
+    // A transação é somada em cada uma das suas tags, mas apenas uma vez no total
+    expect(summaryResponse.body.summary).toEqual({
+      amount: -50250,
+      currency: 'BRL',
+    })
+    expect(summaryResponse.body.groups).toEqual([
+      { tag: 'travel', amount: -50250 },
+      { tag: 'work', amount: -50250 },
+    ])
+  })
+
+  it('should not add amounts of different currencies without a conversion', async () => {
+    const createTransactionResponse = await request(app.server)
+      .post('/transactions')
+      .send({ title: 'Salary', amount: 500000, type: 'credit' })
+
+    const cookies = createTransactionResponse.get('Set-Cookie')
+
+    await request(app.server)
+      .post('/transactions')
+      .set('Cookie', cookies)
+      .send({ title: 'Hotel', amount: 10050, type: 'debit', currency: 'USD' })
+      .expect(201)
+
+    // Sem currency, o resumo e os saldos consideram apenas a moeda padrão
+    const summaryResponse = await request(app.server)
+      .get('/transactions/summary')
+      .set('Cookie', cookies)
+      .expect(200)
+
+    expect(summaryResponse.body.summary).toEqual({
+      amount: 500000,
+      currency: 'BRL',
+    })
+    expect(summaryResponse.body.totalBalance).toEqual(500000)
+
+    // Na série temporal, a moeda pode ser escolhida
+    const timelineResponse = await request(app.server)
+      .get('/transactions/summary/timeline')
+      .query({ interval: 'day', currency: 'USD' })
+      .set('Cookie', cookies)
+      .expect(200)
+
+    expect(timelineResponse.body.currency).toEqual('USD')
+    expect(timelineResponse.body.timeline).toEqual([
+      expect.objectContaining({ credits: 0, debits: 10050, balance: -10050 }),
+    ])
+  })
+})
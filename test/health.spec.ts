@@ -0,0 +1,98 @@
+import { execSync } from 'node:child_process'
+import { afterAll, beforeAll, it, describe, expect, beforeEach } from 'vitest'
+import request from 'supertest'
+import { app } from '../src/app'
+
+describe('Health and metrics routes', () => {
+  beforeAll(async () => {
+    await app.ready()
+  })
+
+  afterAll(async () => {
+    await app.close()
+  })
+
+  beforeEach(() => {
+    execSync('npm run knex migrate:rollback --all')
+    execSync('npm run knex migrate:latest')
+  })
+
+  it('should report liveness and readiness', async () => {
+    await request(app.server).get('/health').expect(200, { status: 'ok' })
+
+    await request(app.server).get('/ready').expect(200, { status: 'ok' })
+
+    // Com migrations pendentes, a aplicação ainda não pode receber requisições
+    execSync('npm run knex migrate:rollback --all')
+
+    const readyResponse = await request(app.server).get('/ready').expect(503)
+
+    expect(readyResponse.body.status).toEqual('unavailable')
+
+    await request(app.server).get('/health').expect(200)
+  })
+
+  it('should echo the request id in the response header', async () => {
+    const listTransactionsResponse = await request(app.server)
+      .get('/transactions')
+      .expect(401)
+
+    expect(listTransactionsResponse.get('X-Request-Id')).toEqual(
+      expect.any(String),
+    )
+
+    // Um id válido recebido é reaproveitado, e um inválido é substituído
+    await request(app.server)
+      .get('/health')
+      .set('X-Request-Id', 'proxy-1234')
+      .expect('X-Request-Id', 'proxy-1234')
+
+    const invalidIdResponse = await request(app.server)
+      .get('/health')
+      .set('X-Request-Id', 'not a valid id')
+
+    expect(invalidIdResponse.get('X-Request-Id')).not.toEqual('not a valid id')
+  })
+
+  it('should expose request and transaction metrics', async () => {
+    // As métricas são acumuladas durante toda a execução do processo, então comparamos os valores antes e depois
+    const transactionsCreated = async () => {
+      const metricsResponse = await request(app.server)
+        .get('/metrics')
+        .expect(200)
+
+      return Number(
+        metricsResponse.text.match(/^transactions_created_total (\d+)$/m)?.[1],
+      )
+    }
+
+    const createdBefore = await transactionsCreated()
+
+    const createTransactionResponse = await request(app.server)
+      .post('/transactions')
+      .send({ title: 'Salary', amount: 500000, type: 'credit' })
+      .expect(201)
+
+    const transactionId = createTransactionResponse.body.transaction.id
+
+    await request(app.server)
+      .get(`/transactions/${transactionId}`)
+      .set('Cookie', createTransactionResponse.get('Set-Cookie'))
+      .expect(200)
+
+    expect(await transactionsCreated()).toEqual(createdBefore + 1)
+
+    const metricsResponse = await request(app.server)
+      .get('/metrics')
+      .expect('Content-Type', /text\/plain/)
+      .expect(200)
+
+    // O rótulo route usa o caminho da rota, e não a URL acessada
+    expect(metricsResponse.text).toContain(
+      'http_requests_total{method="GET",route="/transactions/:id",status_code="200"} 1',
+    )
+    expect(metricsResponse.text).toMatch(
+      /^http_request_duration_seconds_count\{method="POST",route="\/transactions",status_code="201"\} \d+$/m,
+    )
+  })
+})
@@ -0,0 +1,291 @@
+import { execSync } from 'node:child_process'
+import { afterAll, beforeAll, it, describe, expect, beforeEach } from 'vitest'
+import request from 'supertest'
+import { app } from '../src/app'
+import { knex } from '../src/database'
+
+// Cria uma transação em uma nova sessão anônima e devolve os cookies da sessão
+async function createSession(title: string) {
+  const createTransactionResponse = await request(app.server)
+    .post('/transactions')
+    .send({ title, amount: 1000, type: 'credit' })
+    .expect(201)
+
+  return createTransactionResponse.get('Set-Cookie')
+}
+
+// Cria um convite para o livro e devolve o token
+async function createInvite(
+  cookies: string[],
+  ledgerId: string,
+  role: 'editor' | 'viewer',
+) {
+  const createInviteResponse = await request(app.server)
+    .post(`/ledgers/${ledgerId}/invites`)
+    .set('Cookie', cookies)
+    .send({ role })
+    .expect(201)
+
+  return createInviteResponse.body.invite.token
+}
+
+describe('Ledgers routes', () => {
+  beforeAll(async () => {
+    await app.ready()
+  })
+
+  afterAll(async () => {
+    await app.close()
+  })
+
+  beforeEach(() => {
+    execSync('npm run knex migrate:rollback --all')
+    execSync('npm run knex migrate:latest')
+  })
+
+  it('should share the personal ledger with viewers and editors', async () => {
+    const ownerCookies = await createSession('Salary')
+
+    // O livro pessoal é criado automaticamente, e as transações que já existiam pertencem a ele
+    const listLedgersResponse = await request(app.server)
+      .get('/ledgers')
+      .set('Cookie', ownerCookies)
+      .expect(200)
+
+    expect(listLedgersResponse.body.ledgers).toEqual([
+      expect.objectContaining({ role: 'owner', personal: true }),
+    ])
+
+    const ledgerId = listLedgersResponse.body.ledgers[0].id
+
+    const viewerCookies = await createSession('Viewer salary')
+
+    const joinResponse = await request(app.server)
+      .post('/ledgers/join')
+      .set('Cookie', viewerCookies)
+      .send({ token: await createInvite(ownerCookies, ledgerId, 'viewer') })
+      .expect(201)
+
+    expect(joinResponse.body.ledger).toEqual(
+      expect.objectContaining({ id: ledgerId, role: 'viewer' }),
+    )
+
+    // Com o cabeçalho Ledger-Id, o leitor consulta os dados do livro compartilhado
+    const sharedTransactionsResponse = await request(app.server)
+      .get('/transactions')
+      .set('Cookie', viewerCookies)
+      .set('Ledger-Id', ledgerId)
+      .expect(200)
+
+    expect(sharedTransactionsResponse.body.transactions).toEqual([
+      expect.objectContaining({ title: 'Salary' }),
+    ])
+
+    await request(app.server)
+      .get('/transactions/summary')
+      .set('Cookie', viewerCookies)
+      .set('Ledger-Id', ledgerId)
+      .expect(200)
+
+    // Mas não pode alterá-los
+    const forbiddenResponse = await request(app.server)
+      .post('/transactions')
+      .set('Cookie', viewerCookies)
+      .set('Ledger-Id', ledgerId)
+      .send({ title: 'Not allowed', amount: 500, type: 'debit' })
+      .expect(403)
+
+    expect(forbiddenResponse.body.code).toEqual('FORBIDDEN')
+
+    // As rotas que não alteram os dados do livro continuam disponíveis para o leitor, mesmo com o cabeçalho (ex.: sair)
+    await request(app.server)
+      .post('/auth/logout')
+      .set('Cookie', viewerCookies)
+      .set('Ledger-Id', ledgerId)
+      .expect(204)
+
+    // Sem o cabeçalho, o leitor continua usando o seu livro pessoal
+    const personalTransactionsResponse = await request(app.server)
+      .get('/transactions')
+      .set('Cookie', viewerCookies)
+      .expect(200)
+
+    expect(personalTransactionsResponse.body.transactions).toEqual([
+      expect.objectContaining({ title: 'Viewer salary' }),
+    ])
+
+    // Um editor pode criar transações no livro compartilhado
+    const editorCookies = await createSession('Editor salary')
+
+    await request(app.server)
+      .post('/ledgers/join')
+      .set('Cookie', editorCookies)
+      .send({ token: await createInvite(ownerCookies, ledgerId, 'editor') })
+      .expect(201)
+
+    await request(app.server)
+      .post('/transactions')
+      .set('Cookie', editorCookies)
+      .set('Ledger-Id', ledgerId)
+      .send({ title: 'Groceries', amount: 300, type: 'debit' })
+      .expect(201)
+
+    const ownerSummaryResponse = await request(app.server)
+      .get('/transactions/summary')
+      .set('Cookie', ownerCookies)
+      .expect(200)
+
+    expect(ownerSummaryResponse.body.summary).toEqual({
+      amount: 700,
+      currency: 'BRL',
+    })
+  })
+
+  it('should list members, revoke access and refuse used invites', async () => {
+    const ownerCookies = await createSession('Salary')
+
+    const createLedgerResponse = await request(app.server)
+      .post('/ledgers')
+      .set('Cookie', ownerCookies)
+      .send({ name: 'Home' })
+      .expect(201)
+
+    const ledgerId = createLedgerResponse.body.ledger.id
+
+    const memberCookies = await createSession('Member salary')
+    const token = await createInvite(ownerCookies, ledgerId, 'editor')
+
+    await request(app.server)
+      .post('/ledgers/join')
+      .set('Cookie', memberCookies)
+      .send({ token })
+      .expect(201)
+
+    // Cada convite pode ser usado uma única vez
+    const outsiderCookies = await createSession('Outsider salary')
+
+    await request(app.server)
+      .post('/ledgers/join')
+      .set('Cookie', outsiderCookies)
+      .send({ token })
+      .expect(404)
+
+    await request(app.server)
+      .get('/transactions')
+      .set('Cookie', outsiderCookies)
+      .set('Ledger-Id', ledgerId)
+      .expect(403)
+
+    const listMembersResponse = await request(app.server)
+      .get(`/ledgers/${ledgerId}/members`)
+      .set('Cookie', ownerCookies)
+      .expect(200)
+
+    expect(listMembersResponse.body.members).toEqual([
+      expect.objectContaining({ role: 'owner', current: true, email: null }),
+      expect.objectContaining({ role: 'editor', current: false, email: null }),
+    ])
+    expect(listMembersResponse.body.members[0]).not.toHaveProperty('session_id')
+
+    const [owner, member] = listMembersResponse.body.members
+
+    // Apenas o dono pode remover outros membros, e o dono não pode ser removido
+    await request(app.server)
+      .delete(`/ledgers/${ledgerId}/members/${owner.id}`)
+      .set('Cookie', memberCookies)
+      .expect(409)
+
+    await request(app.server)
+      .delete(`/ledgers/${ledgerId}/members/${member.id}`)
+      .set('Cookie', ownerCookies)
+      .expect(204)
+
+    // A remoção vale imediatamente
+    await request(app.server)
+      .get('/transactions')
+      .set('Cookie', memberCookies)
+      .set('Ledger-Id', ledgerId)
+      .expect(403)
+
+    // O livro criado começa vazio: as transações do dono estão no livro pessoal dele
+    const ledgerTransactionsResponse = await request(app.server)
+      .get('/transactions')
+      .set('Cookie', ownerCookies)
+      .set('Ledger-Id', ledgerId)
+      .expect(200)
+
+    expect(ledgerTransactionsResponse.body.transactions).toEqual([])
+  })
+  it('should not give access to a ledger through its session id', async () => {
+    const ownerCookies = await createSession('Salary')
+
+    const createLedgerResponse = await request(app.server)
+      .post('/ledgers')
+      .set('Cookie', ownerCookies)
+      .send({ name: 'Home' })
+      .expect(201)
+
+    const ledgerId = createLedgerResponse.body.ledger.id
+
+    await request(app.server)
+      .post('/transactions')
+      .set('Cookie', ownerCookies)
+      .set('Ledger-Id', ledgerId)
+      .send({ title: 'Rent', amount: 150000, type: 'debit' })
+      .expect(201)
+
+    const viewerCookies = await createSession('Viewer salary')
+
+    await request(app.server)
+      .post('/ledgers/join')
+      .set('Cookie', viewerCookies)
+      .send({ token: await createInvite(ownerCookies, ledgerId, 'viewer') })
+      .expect(201)
+
+    // O session_id do livro não é enviado ao cliente
+    const sharedTransactionsResponse = await request(app.server)
+      .get('/transactions')
+      .set('Cookie', viewerCookies)
+      .set('Ledger-Id', ledgerId)
+      .expect(200)
+
+    expect(sharedTransactionsResponse.body.transactions).toEqual([
+      expect.objectContaining({ title: 'Rent' }),
+    ])
+    expect(sharedTransactionsResponse.body.transactions[0]).not.toHaveProperty(
+      'session_id',
+    )
+
+    // Mesmo que ele seja descoberto, um cookie com o session_id do livro é recusado
+    const ledger = await knex('ledgers').where('id', ledgerId).first()
+
+    await request(app.server)
+      .post('/transactions')
+      .set('Cookie', `sessionId=${ledger?.session_id}`)
+      .send({ title: 'Not allowed', amount: 500, type: 'debit' })
+      .expect(401)
+
+    // Assim como um cookie com o session_id de um usuário cadastrado
+    await request(app.server)
+      .post('/auth/register')
+      .send({ email: 'john.doe@example.com', password: '12345678' })
+      .expect(201)
+
+    const user = await knex('users')
+      .where('email', 'john.doe@example.com')
+      .first()
+
+    await request(app.server)
+      .get('/transactions')
+      .set('Cookie', `sessionId=${user?.session_id}`)
+      .expect(401)
+
+    const ownerTransactionsResponse = await request(app.server)
+      .get('/transactions')
+      .set('Cookie', ownerCookies)
+      .set('Ledger-Id', ledgerId)
+      .expect(200)
+
+    expect(ownerTransactionsResponse.body.transactions).toHaveLength(1)
+  })
+})
@@ -0,0 +1,117 @@
+import { execSync } from 'node:child_process'
+import { afterAll, beforeAll, it, describe, expect, beforeEach } from 'vitest'
+import request from 'supertest'
+import { app } from '../src/app'
+import { knex } from '../src/database'
+import { materializeRecurringTransactions } from '../src/jobs/recurring-transactions'
+
+describe('Recurring routes', () => {
+  beforeAll(async () => {
+    await app.ready()
+  })
+
+  afterAll(async () => {
+    await app.close()
+  })
+
+  beforeEach(() => {
+    execSync('npm run knex migrate:rollback --all')
+    execSync('npm run knex migrate:latest')
+  })
+
+  it('should create the past occurrences only once', async () => {
+    const twoDaysAgo = new Date(Date.now() - 2 * 24 * 60 * 60 * 1000)
+
+    const createRecurringResponse = await request(app.server)
+      .post('/recurring')
+      .send({
+        title: 'Gym',
+        amount: 10,
+        type: 'debit',
+        startDate: twoDaysAgo.toISOString(),
+        schedule: { frequency: 'daily' },
+      })
+      .expect(201)
+
+    const cookies = createRecurringResponse.get('Set-Cookie')
+
+    // Ocorrências de anteontem, ontem e hoje
+    expect(createRecurringResponse.body.created).toEqual(3)
+
+    // Executar o agendador de novo (como depois de reiniciar o servidor) não duplica as ocorrências
+    expect(await materializeRecurringTransactions(app.log)).toEqual(0)
+
+    // Mesmo sem a data da última ocorrência criada, o índice único impede as duplicatas
+    await knex('recurring_transactions').update({ materialized_until: null })
+
+    expect(await materializeRecurringTransactions(app.log)).toEqual(0)
+
+    const listTransactionsResponse = await request(app.server)
+      .get('/transactions')
+      .set('Cookie', cookies)
+
+    expect(listTransactionsResponse.body.transactions).toHaveLength(3)
+    expect(listTransactionsResponse.body.transactions[0]).toEqual(
+      expect.objectContaining({ title: 'Gym', amount: -10 }),
+    )
+  })
+
+  it('should be able to preview the next occurrences', async () => {
+    const createRecurringResponse = await request(app.server)
+      .post('/recurring')
+      .send({
+        title: 'Rent',
+        amount: 1500,
+        type: 'debit',
+        startDate: '2090-01-31T12:00:00.000Z',
+        schedule: { frequency: 'monthly' },
+      })
+
+    const cookies = createRecurringResponse.get('Set-Cookie')
+    const recurringId = createRecurringResponse.body.recurring.id
+
+    const previewResponse = await request(app.server)
+      .get(`/recurring/${recurringId}/preview`)
+      .query({ count: 3 })
+      .set('Cookie', cookies)
+      .expect(200)
+
+    // Nos meses sem o dia 31, a ocorrência acontece no último dia do mês
+    expect(previewResponse.body.occurrences).toEqual([
+      '2090-01-31T12:00:00.000Z',
+      '2090-02-28T12:00:00.000Z',
+      '2090-03-31T12:00:00.000Z',
+    ])
+  })
+
+  it('should support a subset of RRULE', async () => {
+    const createRecurringResponse = await request(app.server)
+      .post('/recurring')
+      .send({
+        title: 'English class',
+        amount: 50,
+        type: 'debit',
+        startDate: '2090-01-03T09:00:00.000Z', // terça-feira
+        schedule: {
+          frequency: 'rrule',
+          rrule: 'FREQ=WEEKLY;BYDAY=MO,WE;COUNT=3',
+        },
+      })
+      .expect(201)
+
+    const cookies = createRecurringResponse.get('Set-Cookie')
+    const recurringId = createRecurringResponse.body.recurring.id
+
+    const previewResponse = await request(app.server)
+      .get(`/recurring/${recurringId}/preview`)
+      .query({ count: 5 })
+      .set('Cookie', cookies)
+      .expect(200)
+
+    expect(previewResponse.body.occurrences).toEqual([
+      '2090-01-04T09:00:00.000Z',
+      '2090-01-09T09:00:00.000Z',
+      '2090-01-11T09:00:00.000Z',
+    ])
+  })
+})
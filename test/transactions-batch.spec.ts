@@ -0,0 +1,148 @@
+import { execSync } from 'node:child_process'
+import { afterAll, beforeAll, it, describe, expect, beforeEach } from 'vitest'
+import request from 'supertest'
+import { app } from '../src/app'
+
+describe('Transactions batch routes', () => {
+  beforeAll(async () => {
+    await app.ready()
+  })
+
+  afterAll(async () => {
+    await app.close()
+  })
+
+  beforeEach(() => {
+    execSync('npm run knex migrate:rollback --all')
+    execSync('npm run knex migrate:latest')
+  })
+
+  it('should create nothing in atomic mode when an item is invalid', async () => {
+    const createBatchResponse = await request(app.server)
+      .post('/transactions/batch')
+      .send({
+        transactions: [
+          { title: 'Salary', amount: 500000, type: 'credit' },
+          { title: 'Rent', amount: 150000, type: 'withdrawal' },
+        ],
+      })
+      .expect(400)
+
+    expect(createBatchResponse.body).toEqual({
+      code: 'BAD_REQUEST',
+      message: 'Nenhuma transação do lote foi criada.',
+      issues: [expect.objectContaining({ field: 'transactions.1.type' })],
+    })
+
+    const cookies = createBatchResponse.get('Set-Cookie')
+
+    const listTransactionsResponse = await request(app.server)
+      .get('/transactions')
+      .set('Cookie', cookies)
+      .expect(200)
+
+    expect(listTransactionsResponse.body.transactions).toEqual([])
+  })
+
+  it('should create the valid items in partial mode', async () => {
+    const createBatchResponse = await request(app.server)
+      .post('/transactions/batch')
+      .send({
+        mode: 'partial',
+        transactions: [
+          { title: 'Salary', amount: 500000, type: 'credit' },
+          {
+            title: 'Coffee',
+            amount: 750,
+            type: 'debit',
+            categoryId: '3c5e3a8e-3b5d-4e5a-9c0e-8b0f0a3b1d2e',
+          },
+          { title: 'Rent', amount: 150000, type: 'debit', tags: ['Home'] },
+        ],
+      })
+      .expect(201)
+
+    expect(createBatchResponse.body).toEqual(
+      expect.objectContaining({ created: 2, failed: 1 }),
+    )
+    expect(createBatchResponse.body.results).toEqual([
+      expect.objectContaining({
+        index: 0,
+        status: 'created',
+        transaction: expect.objectContaining({ amount: 500000 }),
+      }),
+      {
+        index: 1,
+        status: 'failed',
+        errors: [{ field: 'categoryId', message: 'Categoria não encontrada.' }],
+      },
+      expect.objectContaining({
+        index: 2,
+        status: 'created',
+        transaction: expect.objectContaining({
+          amount: -150000,
+          tags: ['home'],
+        }),
+      }),
+    ])
+  })
+
+  it('should return the errors of each item in partial mode when no item is valid', async () => {
+    const createBatchResponse = await request(app.server)
+      .post('/transactions/batch')
+      .send({
+        mode: 'partial',
+        transactions: [
+          { title: 'Salary', amount: 500000, type: 'deposit' },
+          { title: 'Rent', amount: -150000, type: 'debit' },
+        ],
+      })
+      .expect(200)
+
+    expect(createBatchResponse.body).toEqual({
+      mode: 'partial',
+      created: 0,
+      failed: 2,
+      results: [
+        {
+          index: 0,
+          status: 'failed',
+          errors: [{ field: 'type', message: expect.any(String) }],
+        },
+        {
+          index: 1,
+          status: 'failed',
+          errors: [{ field: 'amount', message: expect.any(String) }],
+        },
+      ],
+    })
+  })
+
+  it('should create large batches', async () => {
+    const transactions = Array.from({ length: 250 }, (_, index) => ({
+      title: `Item ${index}`,
+      amount: 100,
+      type: 'credit',
+      tags: ['sync'],
+    }))
+
+    const createBatchResponse = await request(app.server)
+      .post('/transactions/batch')
+      .send({ transactions })
+      .expect(201)
+
+    expect(createBatchResponse.body.created).toEqual(250)
+
+    const cookies = createBatchResponse.get('Set-Cookie')
+
+    const summaryResponse = await request(app.server)
+      .get('/transactions/summary')
+      .query({ groupBy: 'tag' })
+      .set('Cookie', cookies)
+      .expect(200)
+
+    expect(summaryResponse.body.groups).toEqual([
+      { tag: 'sync', amount: 25000 },
+    ])
+  })
+})
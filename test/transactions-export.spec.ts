@@ -0,0 +1,195 @@
+import { execSync } from 'node:child_process'
+import { afterAll, beforeAll, it, describe, expect, beforeEach } from 'vitest'
+import request from 'supertest'
+import { app } from '../src/app'
+
+// Lê o corpo da resposta como texto, independentemente do Content-Type (o supertest só faz isso automaticamente para os tipos text/*)
+function parseText(
+  response: NodeJS.ReadableStream,
+  callback: (error: Error | null, body: string) => void,
+) {
+  let body = ''
+
+  response.setEncoding('utf-8')
+  response.on('data', (chunk: string) => {
+    body += chunk
+  })
+  response.on('end', () => callback(null, body))
+}
+
+describe('Transactions export routes', () => {
+  beforeAll(async () => {
+    await app.ready()
+  })
+
+  afterAll(async () => {
+    await app.close()
+  })
+
+  beforeEach(() => {
+    execSync('npm run knex migrate:rollback --all')
+    execSync('npm run knex migrate:latest')
+  })
+
+  it('should be able to export the transactions as CSV', async () => {
+    const createTransactionResponse = await request(app.server)
+      .post('/transactions')
+      .send({ title: 'Salary, January', amount: 5000, type: 'credit' })
+
+    const cookies = createTransactionResponse.get('Set-Cookie')
+
+    await request(app.server)
+      .post('/transactions')
+      .set('Cookie', cookies)
+      .send({ title: 'Rent', amount: 1500, type: 'debit' })
+
+    // Os filtros da listagem também valem na exportação
+    const exportResponse = await request(app.server)
+      .get('/transactions/export')
+      .query({ format: 'csv', type: 'credit' })
+      .set('Cookie', cookies)
+      .expect(200)
+
+    expect(exportResponse.get('Content-Disposition')).toMatch(
+      /^attachment; filename="transactions-\d{4}-\d{2}-\d{2}\.csv"$/,
+    )
+
+    const lines = exportResponse.text.trim().split('\r\n')
+
+    expect(lines).toHaveLength(2)
+    expect(lines[0]).toEqual('id,date,title,amount,currency,type,external_id')
+    expect(lines[1]).toContain('"Salary, January",50.00,BRL,credit,')
+  })
+
+  it('should round-trip an export with an import of the same format', async () => {
+    const createTransactionResponse = await request(app.server)
+      .post('/transactions')
+      .send({ title: 'Salary', amount: 5000, type: 'credit' })
+
+    const cookies = createTransactionResponse.get('Set-Cookie')
+
+    await request(app.server)
+      .post('/transactions')
+      .set('Cookie', cookies)
+      .send({ title: 'Rent', amount: 1500, type: 'debit' })
+
+    for (const format of ['csv', 'jsonl', 'ofx']) {
+      const exportResponse = await request(app.server)
+        .get('/transactions/export')
+        .query({ format })
+        .set('Cookie', cookies)
+        .buffer(true)
+        .parse(parseText)
+        .expect(200)
+
+      // Importar o arquivo na mesma sessão não cria nada, pois todas as transações já existem
+      const sameSessionImportResponse = await request(app.server)
+        .post('/transactions/import')
+        .set('Cookie', cookies)
+        .attach('file', Buffer.from(exportResponse.body), `export.${format}`)
+        .expect(201)
+
+      expect(sameSessionImportResponse.body).toEqual(
+        expect.objectContaining({ inserted: 0, skipped: 2, rejected: 0 }),
+      )
+
+      // Em uma nova sessão, as transações são recriadas com os mesmos valores
+      const newSessionImportResponse = await request(app.server)
+        .post('/transactions/import')
+        .attach('file', Buffer.from(exportResponse.body), `export.${format}`)
+        .expect(201)
+
+      const newSessionCookies = newSessionImportResponse.get('Set-Cookie')
+
+      expect(newSessionImportResponse.body).toEqual(
+        expect.objectContaining({ inserted: 2, skipped: 0, rejected: 0 }),
+      )
+
+      const summaryResponse = await request(app.server)
+        .get('/transactions/summary')
+        .set('Cookie', newSessionCookies)
+
+      expect(summaryResponse.body.summary.amount).toEqual(3500)
+    }
+  })
+
+  it('should keep the currency of the transactions when an export is imported again', async () => {
+    const createTransactionResponse = await request(app.server)
+      .post('/transactions')
+      .send({ title: 'Sushi', amount: 1000, currency: 'JPY', type: 'debit' })
+
+    const cookies = createTransactionResponse.get('Set-Cookie')
+
+    for (const format of ['csv', 'jsonl']) {
+      const exportResponse = await request(app.server)
+        .get('/transactions/export')
+        .query({ format })
+        .set('Cookie', cookies)
+        .buffer(true)
+        .parse(parseText)
+        .expect(200)
+
+      const importResponse = await request(app.server)
+        .post('/transactions/import')
+        .attach('file', Buffer.from(exportResponse.body), `export.${format}`)
+        .expect(201)
+
+      const listTransactionsResponse = await request(app.server)
+        .get('/transactions')
+        .set('Cookie', importResponse.get('Set-Cookie'))
+        .expect(200)
+
+      expect(listTransactionsResponse.body.transactions).toEqual([
+        expect.objectContaining({
+          title: 'Sushi',
+          amount: -1000,
+          currency: 'JPY',
+        }),
+      ])
+    }
+  })
+
+  it('should export more transactions than a single page of the database', async () => {
+    let cookies: string[] = []
+
+    // Muitos valores repetidos, para que as páginas terminem no meio de um empate da coluna de ordenação
+    for (let batch = 0; batch < 3; batch++) {
+      const createBatchResponse = await request(app.server)
+        .post('/transactions/batch')
+        .set('Cookie', cookies)
+        .send({
+          transactions: Array.from({ length: 400 }, (_, index) => ({
+            title: `Purchase ${batch}-${index}`,
+            amount: (index % 7) + 1,
+            type: 'debit',
+          })),
+        })
+        .expect(201)
+
+      cookies = createBatchResponse.get('Set-Cookie') ?? cookies
+    }
+
+    const exportResponse = await request(app.server)
+      .get('/transactions/export')
+      .query({ format: 'jsonl', sortBy: 'amount', order: 'asc' })
+      .set('Cookie', cookies)
+      .buffer(true)
+      .parse(parseText)
+      .expect(200)
+
+    const exported = exportResponse.body
+      .trim()
+      .split('\n')
+      .map((line: string) => JSON.parse(line))
+
+    expect(exported).toHaveLength(1200)
+    expect(new Set(exported.map(({ id }: { id: string }) => id)).size).toEqual(
+      1200,
+    )
+    expect(exported.map(({ amount }: { amount: number }) => amount)).toEqual(
+      exported
+        .map(({ amount }: { amount: number }) => amount)
+        .sort((a: number, b: number) => a - b),
+    )
+  })
+})
@@ -0,0 +1,218 @@
+import { execSync } from 'node:child_process'
+import { afterAll, beforeAll, it, describe, expect, beforeEach } from 'vitest'
+import request from 'supertest'
+import { app } from '../src/app'
+
+const csvStatement = [
+  'Data;Descrição;Valor',
+  '15/01/2024;Salary;5.000,00',
+  '16/01/2024;Grocery store;-300,50',
+  '31/02/2024;Invalid date;-10,00',
+].join('\n')
+
+const csvMapping = {
+  date: 'Data',
+  title: 'Descrição',
+  amount: 'Valor',
+  delimiter: ';',
+  dateFormat: 'dd/mm/yyyy',
+  decimalSeparator: ',',
+}
+
+const ofxStatement = `OFXHEADER:100
+DATA:OFXSGML
+<OFX>
+<BANKMSGSRSV1><STMTTRNRS><STMTRS><BANKTRANLIST>
+<STMTTRN>
+<TRNTYPE>DEBIT
+<DTPOSTED>20240115120000[-3:BRT]
+<TRNAMT>-50.00
+<FITID>2024011501
+<NAME>Coffee shop
+</STMTTRN>
+<STMTTRN>
+<TRNTYPE>CREDIT
+<DTPOSTED>20240116
+<TRNAMT>1000.00
+<FITID>2024011602
+<MEMO>Refund
+</STMTTRN>
+</BANKTRANLIST></STMTRS></STMTTRNRS></BANKMSGSRSV1>
+</OFX>`
+
+// Extrato OFX com muitas transações, maior que o limite de valores de um whereIn em uma única consulta (WHERE_IN_CHUNK_SIZE)
+function createLargeOfxStatement(count: number, title: string) {
+  const transactions = Array.from(
+    { length: count },
+    (_, index) => `<STMTTRN>
+<TRNTYPE>DEBIT
+<DTPOSTED>2024${String((index % 12) + 1).padStart(2, '0')}10
+<TRNAMT>-${index + 1}.00
+<FITID>LARGE${index}
+<NAME>${title} ${index}
+</STMTTRN>`,
+  )
+
+  return `OFXHEADER:100
+DATA:OFXSGML
+<OFX>
+<BANKMSGSRSV1><STMTTRNRS><STMTRS><BANKTRANLIST>
+${transactions.join('\n')}
+</BANKTRANLIST></STMTRS></STMTTRNRS></BANKMSGSRSV1>
+</OFX>`
+}
+
+describe('Transactions import routes', () => {
+  beforeAll(async () => {
+    await app.ready()
+  })
+
+  afterAll(async () => {
+    await app.close()
+  })
+
+  beforeEach(() => {
+    execSync('npm run knex migrate:rollback --all')
+    execSync('npm run knex migrate:latest')
+  })
+
+  it('should be able to validate a CSV statement without importing it', async () => {
+    const createAccountResponse = await request(app.server)
+      .post('/accounts')
+      .send({ name: 'Checking', kind: 'checking' })
+
+    const cookies = createAccountResponse.get('Set-Cookie')
+
+    const dryRunResponse = await request(app.server)
+      .post('/transactions/import')
+      .query({ dryRun: true })
+      .set('Cookie', cookies)
+      .field('mapping', JSON.stringify(csvMapping))
+      .attach('file', Buffer.from(csvStatement), 'statement.csv')
+      .expect(200)
+
+    expect(dryRunResponse.body).toEqual(
+      expect.objectContaining({ inserted: 2, skipped: 0, rejected: 1 }),
+    )
+    expect(dryRunResponse.body.rows[1].transaction).toEqual(
+      expect.objectContaining({
+        title: 'Grocery store',
+        amount: -30050,
+        currency: 'BRL',
+      }),
+    )
+    expect(dryRunResponse.body.rows[2]).toEqual(
+      expect.objectContaining({ line: 4, status: 'rejected' }),
+    )
+
+    // Nada foi gravado
+    const listTransactionsResponse = await request(app.server)
+      .get('/transactions')
+      .set('Cookie', cookies)
+
+    expect(listTransactionsResponse.body.transactions).toEqual([])
+  })
+
+  it('should skip duplicated rows when importing the same CSV statement twice', async () => {
+    const createAccountResponse = await request(app.server)
+      .post('/accounts')
+      .send({ name: 'Checking', kind: 'checking' })
+
+    const cookies = createAccountResponse.get('Set-Cookie')
+
+    const firstImportResponse = await request(app.server)
+      .post('/transactions/import')
+      .set('Cookie', cookies)
+      .field('mapping', JSON.stringify(csvMapping))
+      .attach('file', Buffer.from(csvStatement), 'statement.csv')
+      .expect(201)
+
+    expect(firstImportResponse.body).toEqual(
+      expect.objectContaining({ inserted: 2, skipped: 0, rejected: 1 }),
+    )
+
+    const secondImportResponse = await request(app.server)
+      .post('/transactions/import')
+      .set('Cookie', cookies)
+      .field('mapping', JSON.stringify(csvMapping))
+      .attach('file', Buffer.from(csvStatement), 'statement.csv')
+      .expect(201)
+
+    expect(secondImportResponse.body).toEqual(
+      expect.objectContaining({ inserted: 0, skipped: 2, rejected: 1 }),
+    )
+  })
+
+  it('should be able to import an OFX statement', async () => {
+    const createAccountResponse = await request(app.server)
+      .post('/accounts')
+      .send({ name: 'Checking', kind: 'checking' })
+
+    const cookies = createAccountResponse.get('Set-Cookie')
+
+    await request(app.server)
+      .post('/transactions/import')
+      .set('Cookie', cookies)
+      .attach('file', Buffer.from(ofxStatement), 'statement.ofx')
+      .expect(201)
+
+    const listTransactionsResponse = await request(app.server)
+      .get('/transactions')
+      .query({ sortBy: 'amount', order: 'asc' })
+      .set('Cookie', cookies)
+
+    expect(listTransactionsResponse.body.transactions).toEqual([
+      expect.objectContaining({
+        title: 'Coffee shop',
+        amount: -5000,
+        external_id: '2024011501',
+        created_at: '2024-01-15 15:00:00', // 12h no fuso -3 equivale a 15h em UTC
+      }),
+      expect.objectContaining({ title: 'Refund', amount: 100000 }),
+    ])
+
+    // O FITID identifica as transações já importadas
+    const secondImportResponse = await request(app.server)
+      .post('/transactions/import')
+      .set('Cookie', cookies)
+      .attach('file', Buffer.from(ofxStatement), 'statement.ofx')
+
+    expect(secondImportResponse.body).toEqual(
+      expect.objectContaining({ inserted: 0, skipped: 2 }),
+    )
+  })
+  it('should be able to import a large statement', async () => {
+    const createAccountResponse = await request(app.server)
+      .post('/accounts')
+      .send({ name: 'Checking', kind: 'checking' })
+
+    const cookies = createAccountResponse.get('Set-Cookie')
+
+    const importResponse = await request(app.server)
+      .post('/transactions/import')
+      .set('Cookie', cookies)
+      .attach(
+        'file',
+        Buffer.from(createLargeOfxStatement(1200, 'Purchase')),
+        'statement.ofx',
+      )
+      .expect(201)
+
+    expect(importResponse.body.inserted).toEqual(1200)
+
+    // Com outros títulos, as duplicatas só são encontradas pelo FITID
+    const secondImportResponse = await request(app.server)
+      .post('/transactions/import')
+      .set('Cookie', cookies)
+      .attach(
+        'file',
+        Buffer.from(createLargeOfxStatement(1200, 'Renamed purchase')),
+        'statement.ofx',
+      )
+      .expect(201)
+
+    expect(secondImportResponse.body).toEqual(
+      expect.objectContaining({ inserted: 0, skipped: 1200 }),
+    )
+  })
+})
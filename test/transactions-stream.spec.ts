@@ -0,0 +1,186 @@
+import { execSync } from 'node:child_process'
+import http from 'node:http'
+import type { AddressInfo } from 'node:net'
+import { afterAll, beforeAll, it, describe, expect, beforeEach } from 'vitest'
+import request from 'supertest'
+import { app } from '../src/app'
+
+interface ReceivedEvent {
+  id?: string
+  type: string
+  data: Record<string, unknown>
+}
+
+// Abre uma conexão com GET /transactions/stream e devolve os eventos recebidos até que `count` eventos tenham chegado. A conexão é fechada em seguida.
+// A função onFirstEvent é executada quando o primeiro evento (o resumo atual) chega, isto é, quando a transmissão já começou
+async function receiveEvents(
+  headers: Record<string, string | string[]>,
+  count: number,
+  onFirstEvent?: () => Promise<void>,
+) {
+  const { port } = app.server.address() as AddressInfo
+
+  const streamResponse = await new Promise<http.IncomingMessage>(
+    (resolve, reject) => {
+      http
+        .get({ port, path: '/transactions/stream', headers }, resolve)
+        .on('error', reject)
+    },
+  )
+
+  expect(streamResponse.statusCode).toEqual(200)
+  expect(streamResponse.headers['content-type']).toEqual('text/event-stream')
+
+  streamResponse.setEncoding('utf8')
+
+  const events: ReceivedEvent[] = []
+  let buffer = ''
+
+  // Sair do for await fecha a conexão
+  for await (const chunk of streamResponse) {
+    buffer += chunk
+
+    // Cada evento termina com uma linha em branco
+    const blocks = buffer.split('\n\n')
+    buffer = blocks.pop() ?? ''
+
+    for (const block of blocks) {
+      const fields = Object.fromEntries(
+        block.split('\n').map((line) => {
+          const separator = line.indexOf(': ')
+
+          return [line.slice(0, separator), line.slice(separator + 2)]
+        }),
+      )
+
+      events.push({
+        id: fields.id,
+        type: fields.event,
+        data: JSON.parse(fields.data),
+      })
+
+      if (events.length === 1) {
+        await onFirstEvent?.()
+      }
+    }
+
+    if (events.length >= count) {
+      break
+    }
+  }
+
+  return events
+}
+
+describe('Transactions stream route', () => {
+  beforeAll(async () => {
+    await app.listen({ port: 0, host: '127.0.0.1' })
+  })
+
+  afterAll(async () => {
+    await app.close()
+  })
+
+  beforeEach(() => {
+    execSync('npm run knex migrate:rollback --all')
+    execSync('npm run knex migrate:latest')
+  })
+
+  it('should push created transactions and the updated summary', async () => {
+    const createTransactionResponse = await request(app.server)
+      .post('/transactions')
+      .send({ title: 'Salary', amount: 500000, type: 'credit' })
+      .expect(201)
+
+    const cookies = createTransactionResponse.get('Set-Cookie')
+
+    // O primeiro evento é o resumo atual. Depois, cada escrita gera os seus eventos
+    const events = await receiveEvents({ Cookie: cookies }, 3, async () => {
+      await request(app.server)
+        .post('/transactions')
+        .set('Cookie', cookies)
+        .send({ title: 'Rent', amount: 150000, type: 'debit', tags: ['home'] })
+        .expect(201)
+    })
+
+    expect(events).toEqual([
+      expect.objectContaining({
+        type: 'summary.updated',
+        data: expect.objectContaining({
+          summary: { amount: 500000, currency: 'BRL' },
+        }),
+      }),
+      {
+        id: expect.any(String),
+        type: 'transaction.created',
+        data: {
+          transaction: expect.objectContaining({
+            title: 'Rent',
+            amount: -150000,
+            tags: ['home'],
+          }),
+        },
+      },
+      {
+        id: expect.any(String),
+        type: 'summary.updated',
+        data: expect.objectContaining({
+          summary: { amount: 350000, currency: 'BRL' },
+        }),
+      },
+    ])
+    expect(events[0].id).toBeUndefined()
+  })
+
+  it('should resume from the Last-Event-ID header', async () => {
+    const createTransactionResponse = await request(app.server)
+      .post('/transactions')
+      .send({ title: 'Salary', amount: 500000, type: 'credit' })
+      .expect(201)
+
+    const cookies = createTransactionResponse.get('Set-Cookie')
+
+    const [, , lastReceived] = await receiveEvents(
+      { Cookie: cookies },
+      3,
+      async () => {
+        await request(app.server)
+          .post('/transactions')
+          .set('Cookie', cookies)
+          .send({ title: 'Rent', amount: 150000, type: 'debit' })
+      },
+    )
+
+    // Alterações feitas enquanto o cliente estava desconectado
+    const transactionId = (
+      await request(app.server)
+        .post('/transactions')
+        .set('Cookie', cookies)
+        .send({ title: 'Groceries', amount: 20000, type: 'debit' })
+    ).body.transaction.id
+
+    await request(app.server)
+      .delete(`/transactions/${transactionId}`)
+      .set('Cookie', cookies)
+      .expect(204)
+
+    const events = await receiveEvents(
+      { Cookie: cookies, 'Last-Event-ID': lastReceived.id ?? '' },
+      4,
+    )
+
+    expect(events.map(({ type }) => type)).toEqual([
+      'transaction.created',
+      'summary.updated',
+      'summary.updated',
+      'summary.updated', // resumo atual, enviado a cada conexão
+    ])
+    expect(events[0].data.transaction).toEqual(
+      expect.objectContaining({ title: 'Groceries' }),
+    )
+    expect(events[3].data.summary).toEqual({
+      amount: 350000,
+      currency: 'BRL',
+    })
+  })
+})
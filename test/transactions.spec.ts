@@ -41,7 +41,7 @@ describe('Transactions routes', () => {
   // A função it faz a mesma coisa que a função test. Geralmente, usamos a função it para fornecer a descrição do teste seguindo o padrão "it should be able"
   it('should be able to create a new transaction', async () => {
     // Solicitação HTTP para a aplicação (cria uma transação)
-    await request(app.server)
+    const createTransactionResponse = await request(app.server)
       .post('/transactions') // especifica que é uma solicitação do tipo POST para a rota '/transactions'
       .send({
         title: 'New transaction',
@@ -49,6 +49,53 @@ describe('Transactions routes', () => {
         type: 'credit',
       }) // envia dados no corpo da solicitação, simulando a criação de uma nova transação
       .expect(201) // verifica se a resposta da API possui um código de status HTTP 201 (Created), indicando que a transação foi criada com sucesso
+
+    // A resposta contém a transação criada, com o seu id
+    expect(createTransactionResponse.body.transaction).toEqual(
+      expect.objectContaining({
+        id: expect.any(String),
+        title: 'New transaction',
+        amount: 5000,
+      }),
+    )
+  })
+
+  it('should replay the original response when the same Idempotency-Key is sent again', async () => {
+    const body = { title: 'New transaction', amount: 5000, type: 'credit' }
+
+    const createTransactionResponse = await request(app.server)
+      .post('/transactions')
+      .set('Idempotency-Key', 'retry-1')
+      .send(body)
+      .expect(201)
+
+    const cookies = createTransactionResponse.get('Set-Cookie')
+
+    // A ordem das propriedades do corpo não importa
+    const retryResponse = await request(app.server)
+      .post('/transactions')
+      .set('Cookie', cookies)
+      .set('Idempotency-Key', 'retry-1')
+      .send({ type: 'credit', amount: 5000, title: 'New transaction' })
+      .expect(201)
+
+    expect(retryResponse.headers['idempotent-replayed']).toEqual('true')
+    expect(retryResponse.body).toEqual(createTransactionResponse.body)
+
+    // A mesma chave com outro corpo é rejeitada
+    await request(app.server)
+      .post('/transactions')
+      .set('Cookie', cookies)
+      .set('Idempotency-Key', 'retry-1')
+      .send({ ...body, amount: 6000 })
+      .expect(422)
+
+    const listTransactionsResponse = await request(app.server)
+      .get('/transactions')
+      .set('Cookie', cookies)
+      .expect(200)
+
+    expect(listTransactionsResponse.body.transactions).toHaveLength(1)
   })
 
   it('should be able to list all transactions', async () => {
@@ -79,6 +126,137 @@ describe('Transactions routes', () => {
     ])
   })
 
+  it('should be able to filter the transactions list', async () => {
+    // Cria uma transação (crédito)
+    const createTransactionResponse = await request(app.server)
+      .post('/transactions')
+      .send({
+        title: 'Salary',
+        amount: 5000,
+        type: 'credit',
+      })
+
+    const cookies = createTransactionResponse.get('Set-Cookie')
+
+    // Cria duas transações (débito)
+    await request(app.server)
+      .post('/transactions')
+      .set('Cookie', cookies)
+      .send({ title: 'Grocery store', amount: 300, type: 'debit' })
+
+    await request(app.server)
+      .post('/transactions')
+      .set('Cookie', cookies)
+      .send({ title: 'Rent', amount: 1500, type: 'debit' })
+
+    // Lista apenas os débitos com valor mínimo de 1000
+    const debitsResponse = await request(app.server)
+      .get('/transactions')
+      .query({ type: 'debit', minAmount: 1000 })
+      .set('Cookie', cookies)
+      .expect(200)
+
+    expect(debitsResponse.body.transactions).toEqual([
+      expect.objectContaining({ title: 'Rent', amount: -1500 }),
+    ])
+
+    // Busca pelo trecho do título, sem diferenciar maiúsculas de minúsculas
+    const searchResponse = await request(app.server)
+      .get('/transactions')
+      .query({ search: 'GROCERY' })
+      .set('Cookie', cookies)
+      .expect(200)
+
+    expect(searchResponse.body.transactions).toEqual([
+      expect.objectContaining({ title: 'Grocery store' }),
+    ])
+  })
+
+  it('should be able to paginate the transactions list', async () => {
+    const createTransactionResponse = await request(app.server)
+      .post('/transactions')
+      .send({ title: 'Transaction 1', amount: 100, type: 'credit' })
+
+    const cookies = createTransactionResponse.get('Set-Cookie')
+
+    for (const amount of [200, 300]) {
+      await request(app.server)
+        .post('/transactions')
+        .set('Cookie', cookies)
+        .send({ title: `Transaction ${amount / 100}`, amount, type: 'credit' })
+    }
+
+    // Primeira página, ordenada pelo valor em ordem crescente
+    const firstPageResponse = await request(app.server)
+      .get('/transactions')
+      .query({ sortBy: 'amount', order: 'asc', limit: 2 })
+      .set('Cookie', cookies)
+      .expect(200)
+
+    expect(firstPageResponse.body.transactions).toEqual([
+      expect.objectContaining({ amount: 100 }),
+      expect.objectContaining({ amount: 200 }),
+    ])
+    expect(firstPageResponse.body.nextCursor).toEqual(expect.any(String))
+
+    // Segunda página, obtida a partir do cursor devolvido na primeira
+    const secondPageResponse = await request(app.server)
+      .get('/transactions')
+      .query({
+        sortBy: 'amount',
+        order: 'asc',
+        limit: 2,
+        cursor: firstPageResponse.body.nextCursor,
+      })
+      .set('Cookie', cookies)
+      .expect(200)
+
+    expect(secondPageResponse.body.transactions).toEqual([
+      expect.objectContaining({ amount: 300 }),
+    ])
+    expect(secondPageResponse.body.nextCursor).toBeNull()
+  })
+
+  it('should paginate transactions that share the same creation date', async () => {
+    // As transações do lote são criadas na mesma inserção, por isso têm a mesma data de criação
+    const createBatchResponse = await request(app.server)
+      .post('/transactions/batch')
+      .send({
+        transactions: [
+          { title: 'Transaction 1', amount: 100, type: 'credit' },
+          { title: 'Transaction 2', amount: 200, type: 'credit' },
+          { title: 'Transaction 3', amount: 300, type: 'credit' },
+        ],
+      })
+      .expect(201)
+
+    const cookies = createBatchResponse.get('Set-Cookie')
+
+    for (const order of ['asc', 'desc']) {
+      const titles: string[] = []
+      let cursor: string | null = null
+
+      // Percorre a listagem com uma transação por página, até a última página
+      do {
+        const pageResponse: request.Response = await request(app.server)
+          .get('/transactions')
+          .query({ order, limit: 1, ...(cursor && { cursor }) })
+          .set('Cookie', cookies)
+          .expect(200)
+
+        titles.push(
+          ...pageResponse.body.transactions.map(
+            (transaction: { title: string }) => transaction.title,
+          ),
+        )
+        cursor = pageResponse.body.nextCursor
+      } while (cursor)
+
+      expect(titles).toHaveLength(3)
+      expect(new Set(titles).size).toBe(3)
+    }
+  })
+
   it('should be able to get a specific transaction', async () => {
     // Cria uma transação
     const createTransactionResponse = await request(app.server)
@@ -115,6 +293,148 @@ describe('Transactions routes', () => {
     )
   })
 
+  it('should respond with the error envelope on invalid or missing transactions', async () => {
+    // Sem sessão, a rota é bloqueada pelo ensureAuthenticated
+    const unauthorizedResponse = await request(app.server)
+      .get('/transactions')
+      .expect(401)
+
+    expect(unauthorizedResponse.body).toEqual({
+      code: 'UNAUTHORIZED',
+      message: 'Não autorizado.',
+      issues: [],
+    })
+
+    const invalidBodyResponse = await request(app.server)
+      .post('/transactions')
+      .send({ title: 'New transaction', amount: '5000', type: 'credit' })
+      .expect(400)
+
+    expect(invalidBodyResponse.body).toEqual({
+      code: 'VALIDATION_ERROR',
+      message: expect.any(String),
+      issues: [{ field: 'amount', message: expect.any(String) }],
+    })
+
+    // O valor é sempre positivo: o tipo define se é crédito ou débito
+    for (const amount of [-5000, 0]) {
+      const invalidAmountResponse = await request(app.server)
+        .post('/transactions')
+        .send({ title: 'New transaction', amount, type: 'credit' })
+        .expect(400)
+
+      expect(invalidAmountResponse.body.issues).toEqual([
+        { field: 'amount', message: expect.any(String) },
+      ])
+    }
+
+    const createTransactionResponse = await request(app.server)
+      .post('/transactions')
+      .send({ title: 'New transaction', amount: 5000, type: 'credit' })
+
+    const cookies = createTransactionResponse.get('Set-Cookie')
+
+    const invalidIdResponse = await request(app.server)
+      .get('/transactions/not-a-uuid')
+      .set('Cookie', cookies)
+      .expect(400)
+
+    expect(invalidIdResponse.body.issues).toEqual([
+      { field: 'id', message: expect.any(String) },
+    ])
+
+    const notFoundResponse = await request(app.server)
+      .get('/transactions/3c5e3a8e-3b5d-4e5a-9c0e-8b0f0a3b1d2e')
+      .set('Cookie', cookies)
+      .expect(404)
+
+    expect(notFoundResponse.body).toEqual({
+      code: 'NOT_FOUND',
+      message: 'Transação não encontrada.',
+      issues: [],
+    })
+  })
+
+  it('should be able to update a transaction', async () => {
+    const createTransactionResponse = await request(app.server)
+      .post('/transactions')
+      .send({ title: 'Grocry store', amount: 300, type: 'debit' })
+
+    const cookies = createTransactionResponse.get('Set-Cookie')
+
+    const listTransactionsResponse = await request(app.server)
+      .get('/transactions')
+      .set('Cookie', cookies)
+
+    const transactionId = listTransactionsResponse.body.transactions[0].id
+
+    // Corrige o título; o valor e o tipo da transação são mantidos
+    const updateTransactionResponse = await request(app.server)
+      .patch(`/transactions/${transactionId}`)
+      .set('Cookie', cookies)
+      .send({ title: 'Grocery store' })
+      .expect(200)
+
+    expect(updateTransactionResponse.body.transaction).toEqual(
+      expect.objectContaining({ title: 'Grocery store', amount: -300 }),
+    )
+  })
+
+  it('should be able to delete and restore a transaction', async () => {
+    const createTransactionResponse = await request(app.server)
+      .post('/transactions')
+      .send({ title: 'New transaction', amount: 5000, type: 'credit' })
+
+    const cookies = createTransactionResponse.get('Set-Cookie')
+
+    const listTransactionsResponse = await request(app.server)
+      .get('/transactions')
+      .set('Cookie', cookies)
+
+    const transactionId = listTransactionsResponse.body.transactions[0].id
+
+    await request(app.server)
+      .delete(`/transactions/${transactionId}`)
+      .set('Cookie', cookies)
+      .expect(204)
+
+    // A transação excluída não aparece mais na listagem nem no resumo
+    const listAfterDeleteResponse = await request(app.server)
+      .get('/transactions')
+      .set('Cookie', cookies)
+
+    expect(listAfterDeleteResponse.body.transactions).toEqual([])
+
+    const summaryAfterDeleteResponse = await request(app.server)
+      .get('/transactions/summary')
+      .set('Cookie', cookies)
+
+    expect(summaryAfterDeleteResponse.body.summary.amount).toBeNull()
+
+    await request(app.server)
+      .post(`/transactions/${transactionId}/restore`)
+      .set('Cookie', cookies)
+      .expect(200)
+
+    const summaryAfterRestoreResponse = await request(app.server)
+      .get('/transactions/summary')
+      .set('Cookie', cookies)
+
+    expect(summaryAfterRestoreResponse.body.summary.amount).toEqual(5000)
+
+    // Todas as alterações ficam registradas no histórico
+    const historyResponse = await request(app.server)
+      .get(`/transactions/${transactionId}/history`)
+      .set('Cookie', cookies)
+      .expect(200)
+
+    expect(
+      historyResponse.body.history.map(
+        (entry: { action: string }) => entry.action,
+      ),
+    ).toEqual(['created', 'deleted', 'restored'])
+  })
+
   it('should be able to get the summary', async () => {
     // Cria uma transação (crédito)
     const createTransactionResponse = await request(app.server)
@@ -147,8 +467,101 @@ describe('Transactions routes', () => {
     // Verifica se a resposta contém as informações esperadas
     expect(summaryResponse.body.summary).toEqual({
       amount: 3000,
+      currency: 'BRL',
     })
   })
+
+  it('should be able to get the summary grouped by category and by tag', async () => {
+    const createCategoryResponse = await request(app.server)
+      .post('/categories')
+      .send({ name: 'Groceries' })
+
+    const cookies = createCategoryResponse.get('Set-Cookie')
+    const categoryId = createCategoryResponse.body.category.id
+
+    await request(app.server)
+      .post('/transactions')
+      .set('Cookie', cookies)
+      .send({
+        title: 'Market',
+        amount: 300,
+        type: 'debit',
+        categoryId,
+        tags: ['Food', 'weekly'],
+      })
+
+    await request(app.server)
+      .post('/transactions')
+      .set('Cookie', cookies)
+      .send({ title: 'Salary', amount: 5000, type: 'credit', tags: ['work'] })
+
+    const summaryByCategoryResponse = await request(app.server)
+      .get('/transactions/summary')
+      .query({ groupBy: 'category' })
+      .set('Cookie', cookies)
+      .expect(200)
+
+    expect(summaryByCategoryResponse.body.groups).toEqual(
+      expect.arrayContaining([
+        { category_id: categoryId, name: 'Groceries', amount: -300 },
+        { category_id: null, name: null, amount: 5000 },
+      ]),
+    )
+
+    const summaryByTagResponse = await request(app.server)
+      .get('/transactions/summary')
+      .query({ groupBy: 'tag' })
+      .set('Cookie', cookies)
+      .expect(200)
+
+    // As tags são guardadas em minúsculas
+    expect(summaryByTagResponse.body.groups).toEqual(
+      expect.arrayContaining([
+        { tag: 'food', amount: -300 },
+        { tag: 'weekly', amount: -300 },
+        { tag: 'work', amount: 5000 },
+      ]),
+    )
+  })
+
+  it('should be able to get the summary timeline', async () => {
+    const createTransactionResponse = await request(app.server)
+      .post('/transactions')
+      .send({ title: 'Salary', amount: 5000, type: 'credit' })
+
+    const cookies = createTransactionResponse.get('Set-Cookie')
+
+    await request(app.server)
+      .post('/transactions')
+      .set('Cookie', cookies)
+      .send({ title: 'Rent', amount: 1500, type: 'debit' })
+
+    const now = new Date()
+    const twoDaysAgo = new Date(now.getTime() - 2 * 24 * 60 * 60 * 1000)
+
+    const timelineResponse = await request(app.server)
+      .get('/transactions/summary/timeline')
+      .query({
+        interval: 'day',
+        from: twoDaysAgo.toISOString(),
+        to: now.toISOString(),
+      })
+      .set('Cookie', cookies)
+      .expect(200)
+
+    // Os dias sem transações também fazem parte da série, com os totais zerados
+    expect(timelineResponse.body.timeline).toEqual([
+      expect.objectContaining({ credits: 0, debits: 0, net: 0, balance: 0 }),
+      expect.objectContaining({ credits: 0, debits: 0, net: 0, balance: 0 }),
+      {
+        period: now.toISOString().slice(0, 10),
+        credits: 5000,
+        debits: 1500,
+        net: 3500,
+        balance: 3500,
+      },
+    ])
+  })
 })
 
 /*
@@ -0,0 +1,13 @@
+import { defineConfig } from 'vitest/config'
+
+export default defineConfig({
+  test: {
+    // Todos os arquivos de teste usam o mesmo banco de dados (test.db) e refazem as migrações antes de cada teste,
+    // então eles não podem ser executados em paralelo
+    poolOptions: {
+      threads: {
+        singleThread: true,
+      },
+    },
+  },
+})